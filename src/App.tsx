@@ -1,63 +1,561 @@
-import { type ReactNode, useEffect, useMemo, useRef, useState } from "react";
-import { AlertTriangle, ChevronDown, Circle, Upload } from "lucide-react";
-import { Bar, BarChart, Cell, Legend, Pie, PieChart, ResponsiveContainer, Tooltip, XAxis, YAxis } from "recharts";
+import { type ReactNode, useCallback, useEffect, useMemo, useRef, useState } from "react";
+import { AlertTriangle, ArrowDown, ArrowUp, ChevronDown, Circle, Upload, X } from "lucide-react";
+import {
+  Area,
+  AreaChart,
+  Bar,
+  BarChart,
+  CartesianGrid,
+  Cell,
+  ComposedChart,
+  Legend,
+  Line,
+  LineChart,
+  Pie,
+  PieChart,
+  ResponsiveContainer,
+  Tooltip,
+  XAxis,
+  YAxis
+} from "recharts";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { CapacityEditor, type CapacityPlan, effectiveCapacity, EMPTY_CAPACITY_PLAN } from "@/components/common/capacity-editor";
+import { ColumnMappingDialog } from "@/components/common/column-mapping-dialog";
+import { CommandPalette, type PaletteItem } from "@/components/common/command-palette";
+import { DatasetLibrary, type DatasetTarget } from "@/components/common/dataset-library";
+import { SheetPickerDialog } from "@/components/common/sheet-picker-dialog";
+import { EstimationScaleEditor } from "@/components/common/estimation-scale-editor";
+import { MultiCheckFilter } from "@/components/common/multi-check-filter";
+import { type ParseProgress, ParseProgressBar } from "@/components/common/parse-progress";
+import { StatusMappingEditor } from "@/components/common/status-mapping-editor";
 import { VirtualTable } from "@/components/common/virtual-table";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { createDatasetId, type DatasetMeta, deleteDataset, listDatasets, loadDataset, saveDataset } from "@/lib/dataset-store";
 
-type Status = "open" | "inprogress" | "done" | "other";
+type Status = "open" | "inprogress" | "review" | "blocked" | "done" | "cancelled" | "other";
 
 type Task = {
   taskId: string;
   taskUrl: string;
   issueType: string;
   assignee: string;
-  storyPoint: number;
+  storyPoint: number | null;
+  rawStoryPoint: string;
   name: string;
   weeks: string[];
   epicLink: string;
   module: string;
   status: Status;
+  rawStatus: string;
+  source: string;
+  sourceRow: number;
 };
 
+type ImportIssueKind = "key" | "weeks" | "storyPoint" | "status" | "duplicate" | "conflict";
+
+type ImportIssue = {
+  kind: ImportIssueKind;
+  source: string;
+  row: number;
+  taskId: string;
+  value: string;
+  message: string;
+};
+
+const IMPORT_ISSUE_LABELS: Record<ImportIssueKind, string> = {
+  key: "Unparseable key",
+  weeks: "Missing week label",
+  storyPoint: "Invalid story points",
+  status: "Unknown status",
+  duplicate: "Conflicting duplicate",
+  conflict: "Conflict between files"
+};
+
+// When a snapshot was taken and where that date came from, in order of trust.
+type SnapshotDate = { time: number; source: "file name" | "Updated column" | "file date" };
+
+type LoadedSource = {
+  id: string;
+  fileName: string;
+  rowCount: number;
+  tasks: Task[];
+  issues: ImportIssue[];
+  capturedAt?: SnapshotDate;
+};
+
+type ToastType = "success" | "error" | "info";
+
+type StoredDatasetData = Pick<LoadedSource, "tasks" | "issues" | "capturedAt">;
+
+type SnapshotSlot = { id: string; name: string; tasks: Task[]; capturedAt?: SnapshotDate };
+
+// Dataset ids open in the last session; the rows themselves live in IndexedDB.
+type DatasetSession = { main: string[]; snapshots: string[]; compareA: string; compareB: string };
+
+// Sessions saved before the snapshot series held one baseline and one latest snapshot.
+type LegacyDatasetSession = { main?: string[]; base?: string | null; current?: string | null };
+
+const DATASET_SESSION_STORAGE_KEY = "task-report-dashboard:dataset-session";
+
+function loadDatasetSession(): DatasetSession {
+  const stored = loadStoredJson<Partial<DatasetSession> & LegacyDatasetSession>(DATASET_SESSION_STORAGE_KEY, {});
+  const main = Array.isArray(stored.main) ? stored.main : [];
+  if (Array.isArray(stored.snapshots)) {
+    return { main, snapshots: stored.snapshots, compareA: stored.compareA ?? "", compareB: stored.compareB ?? "" };
+  }
+  const base = stored.base ?? "";
+  const current = stored.current ?? "";
+  return { main, snapshots: [base, current].filter(Boolean), compareA: base, compareB: current };
+}
+
 type SnapshotTask = {
   taskKey: string;
   taskId: string;
   taskUrl: string;
   taskName: string;
+  issueType: string;
+  epicLink: string;
   module: string;
   assignee: string;
-  storyPoint: number;
+  storyPoint: number | null;
   status: Status;
+  rawStatus: string;
   weeks: string[];
 };
 
+const SNAPSHOT_CATEGORIES = [
+  "Status changed",
+  "Still active",
+  "New task",
+  "Missing in latest",
+  "Missing after done",
+  "Done in both",
+  "Repeated"
+] as const;
+
+type SnapshotCategory = (typeof SNAPSHOT_CATEGORIES)[number];
+
+// Movement and stalled work are the default signal; the rest are opt-in from the filter bar.
+const DEFAULT_SNAPSHOT_CATEGORIES: SnapshotCategory[] = ["Status changed", "Still active"];
+
+type SnapshotField = "status" | "taskName" | "issueType" | "assignee" | "module" | "epicLink" | "storyPoint" | "weeks";
+
+type SnapshotFieldChange = { field: SnapshotField; label: string; before: string; after: string };
+
+// Task fields compared between two snapshots. Key, URL and source row only identify where a row came from.
+const SNAPSHOT_DIFF_FIELDS: Array<{ key: SnapshotField; label: string; value: (task: SnapshotTask) => string }> = [
+  { key: "status", label: "Status", value: (task) => task.rawStatus || statusLabel(task.status) },
+  { key: "taskName", label: "Summary", value: (task) => task.taskName },
+  { key: "issueType", label: "Issue type", value: (task) => task.issueType },
+  { key: "assignee", label: "Assignee", value: (task) => task.assignee },
+  { key: "module", label: "Project", value: (task) => task.module },
+  { key: "epicLink", label: "Epic", value: (task) => task.epicLink },
+  { key: "storyPoint", label: "Story points", value: (task) => (task.storyPoint === null ? "-" : String(task.storyPoint)) },
+  { key: "weeks", label: "Week labels", value: (task) => task.weeks.join(", ") || "-" }
+];
+
+type RawRow = Record<string, string | number>;
+
+type ColumnField = "taskId" | "issueType" | "assignee" | "storyPoint" | "name" | "labels" | "epicLink" | "module" | "status";
+
+type ColumnMapping = Partial<Record<ColumnField, string>>;
+
+type ParseTarget = "main" | "snapshot";
+
+type SheetInfo = { name: string; rowCount: number };
+
+type JiraFieldConfig = {
+  storyPoint: string;
+  epicLink: string;
+};
+
+type ParseOptions = {
+  sheets?: string[];
+  savedMappings?: Record<string, ColumnMapping>;
+  jiraFields?: JiraFieldConfig;
+};
+
+const DEFAULT_JIRA_FIELDS: JiraFieldConfig = { storyPoint: "customfield_10016", epicLink: "customfield_10014" };
+
+const JIRA_FIELDS_STORAGE_KEY = "task-report-dashboard:jira-fields";
+
+const TASK_FILE_ACCEPT = ".xlsx,.xls,.csv,.json";
+
+type PendingSheetSelection = {
+  target: ParseTarget;
+  file: File;
+  sheets: SheetInfo[];
+};
+
+type PendingColumnMapping = {
+  target: ParseTarget;
+  file: File;
+  sheets?: string[];
+  sheet: string;
+  signature: string;
+  columns: string[];
+  preview: RawRow[];
+  mapping: ColumnMapping;
+};
+
+const COLUMN_FIELDS: Array<{ key: ColumnField; label: string; required: boolean }> = [
+  { key: "taskId", label: "Key", required: true },
+  { key: "name", label: "Summary", required: true },
+  { key: "status", label: "Status", required: true },
+  { key: "issueType", label: "Issue Type", required: false },
+  { key: "assignee", label: "Assignee", required: false },
+  { key: "storyPoint", label: "Story Points", required: false },
+  { key: "labels", label: "Labels (weeks)", required: false },
+  { key: "epicLink", label: "Epic Link", required: false },
+  { key: "module", label: "ModuleName", required: false }
+];
+
+const COLUMN_MAPPINGS_STORAGE_KEY = "task-report-dashboard:column-mappings";
+
+function loadStoredJson<T>(key: string, fallback: T): T {
+  try {
+    const raw = window.localStorage.getItem(key);
+    return raw ? (JSON.parse(raw) as T) : fallback;
+  } catch {
+    return fallback;
+  }
+}
+
+function saveStoredJson(key: string, value: unknown) {
+  try {
+    window.localStorage.setItem(key, JSON.stringify(value));
+  } catch {
+    // Storage can be full or disabled (private mode); the app keeps working without persistence.
+  }
+}
+
+const STATUS_CATEGORIES: Array<{ key: Status; label: string; color: string; className: string }> = [
+  { key: "open", label: "open", color: "#2563eb", className: "text-sky-600" },
+  { key: "inprogress", label: "in progress", color: "#f59e0b", className: "text-amber-500" },
+  { key: "review", label: "review", color: "#8b5cf6", className: "text-violet-600" },
+  { key: "blocked", label: "blocked", color: "#dc2626", className: "text-red-600" },
+  { key: "done", label: "done", color: "#16a34a", className: "text-emerald-600" },
+  { key: "cancelled", label: "cancelled", color: "#64748b", className: "text-slate-400" },
+  { key: "other", label: "other", color: "#94a3b8", className: "text-slate-500" }
+];
+
+const TOAST_CLASSES: Record<ToastType, string> = {
+  success: "bg-emerald-600",
+  error: "bg-red-600",
+  // Neutral notices, such as an import the user cancelled.
+  info: "bg-slate-700"
+};
+
+// Bottom-to-top band order of the cumulative flow chart.
+const CUMULATIVE_FLOW_ORDER: Status[] = ["done", "review", "inprogress", "blocked", "open", "cancelled", "other"];
+
+const STATUS_MAPPING_STORAGE_KEY = "task-report-dashboard:status-mapping";
+
+type WorkloadWeight = "light" | "medium" | "heavy";
+
+type EstimationBucket = {
+  label: string;
+  // Upper bound (inclusive) in story points; null means no upper bound.
+  max: number | null;
+  weight: WorkloadWeight;
+};
+
+type EstimationScale = {
+  id: "difficulty" | "fibonacci" | "tshirt" | "custom";
+  name: string;
+  buckets: EstimationBucket[];
+};
+
+const ESTIMATION_SCALE_PRESETS: EstimationScale[] = [
+  {
+    id: "difficulty",
+    name: "Difficulty C1-C5",
+    buckets: [
+      { label: "C1", max: 1.5, weight: "light" },
+      { label: "C2", max: 2.5, weight: "light" },
+      { label: "C3", max: 3.5, weight: "medium" },
+      { label: "C4", max: 4.5, weight: "heavy" },
+      { label: "C5", max: null, weight: "heavy" }
+    ]
+  },
+  {
+    id: "fibonacci",
+    name: "Fibonacci",
+    buckets: [
+      { label: "0.5", max: 0.5, weight: "light" },
+      { label: "1", max: 1, weight: "light" },
+      { label: "2", max: 2, weight: "light" },
+      { label: "3", max: 3, weight: "medium" },
+      { label: "5", max: 5, weight: "medium" },
+      { label: "8", max: 8, weight: "heavy" },
+      { label: "13", max: 13, weight: "heavy" },
+      { label: "21+", max: null, weight: "heavy" }
+    ]
+  },
+  {
+    id: "tshirt",
+    name: "T-shirt sizes",
+    buckets: [
+      { label: "XS", max: 1, weight: "light" },
+      { label: "S", max: 2, weight: "light" },
+      { label: "M", max: 5, weight: "medium" },
+      { label: "L", max: 8, weight: "heavy" },
+      { label: "XL", max: 13, weight: "heavy" },
+      { label: "XXL", max: null, weight: "heavy" }
+    ]
+  }
+];
+
+const ESTIMATION_SCALE_STORAGE_KEY = "task-report-dashboard:estimation-scale";
+
+type WorkloadMeasure = "count" | "storyPoint" | "remaining";
+
+const WORKLOAD_MEASURE_LABELS: Record<WorkloadMeasure, string> = {
+  count: "Task count",
+  storyPoint: "Story points",
+  remaining: "Remaining points"
+};
+
+const WORKLOAD_MEASURE_STORAGE_KEY = "task-report-dashboard:workload-measure";
+
+const CAPACITY_STORAGE_KEY = "task-report-dashboard:capacity";
+
+// Planned load below this share of capacity is flagged as under-allocated.
+const UNDER_ALLOCATION_RATIO = 0.7;
+
+type AllocationState = "over" | "under" | "ok" | "leave" | "unset";
+
+const ALLOCATION_STYLES: Record<AllocationState, { bar: string; row: string; text: string }> = {
+  over: { bar: "bg-red-500", row: "bg-red-50", text: "text-red-700" },
+  under: { bar: "bg-amber-400", row: "bg-amber-50", text: "text-amber-700" },
+  ok: { bar: "bg-emerald-500", row: "", text: "text-emerald-700" },
+  leave: { bar: "bg-slate-300", row: "", text: "text-slate-500" },
+  unset: { bar: "bg-slate-300", row: "", text: "text-muted-foreground" }
+};
+
+const BUCKET_COLORS = ["#38bdf8", "#818cf8", "#f59e0b", "#f97316", "#ef4444", "#ec4899", "#14b8a6", "#a855f7"];
+
+const UNESTIMATED_COLOR = "#cbd5e1";
+
+type TaskSettings = {
+  weekYear: number;
+  // Lower-cased raw status -> category chosen in the status mapping editor.
+  statusMapping: Record<string, Status>;
+};
+
+// Accepts "W05", "2026-W05", "2026W05" and "W05-2026"; bare labels take the configured default year.
+const WEEK_LABEL_PATTERN = /^(?:(\d{4})-?W(\d{1,2})|W(\d{1,2})(?:-(\d{4}))?)$/i;
+
+const WEEK_YEAR_STORAGE_KEY = "task-report-dashboard:week-year";
+
+function weekCode(year: number, week: number) {
+  return `${year}-W${twoDigits(week)}`;
+}
+
+function canonicalWeek(label: string, defaultYear: number) {
+  const m = label.match(WEEK_LABEL_PATTERN);
+  if (!m) return label;
+  return weekCode(Number(m[1] ?? m[4] ?? defaultYear), Number(m[2] ?? m[3]));
+}
+
+// Index into scale.buckets, or -1 when the task has no usable estimate.
+function estimateBucketIndex(scale: EstimationScale, storyPoint: number | null, rawStoryPoint: string) {
+  if (storyPoint === null) {
+    // Text estimates such as "M" match a bucket by label.
+    const raw = rawStoryPoint.trim().toLowerCase();
+    return raw ? scale.buckets.findIndex((bucket) => bucket.label.toLowerCase() === raw) : -1;
+  }
+  const index = scale.buckets.findIndex((bucket) => bucket.max === null || storyPoint <= bucket.max);
+  return index === -1 ? scale.buckets.length - 1 : index;
+}
+
+function bucketLabels(scale: EstimationScale, weight: WorkloadWeight) {
+  const labels = scale.buckets.filter((bucket) => bucket.weight === weight).map((bucket) => bucket.label);
+  if (labels.length <= 2) return labels.join(", ");
+  return `${labels[0]}-${labels[labels.length - 1]}`;
+}
+
+function statusMappingKey(rawStatus: string) {
+  return rawStatus.trim().toLowerCase();
+}
+
+function prepareTasks(tasks: Task[], { weekYear, statusMapping }: TaskSettings) {
+  return tasks.map((task) => ({
+    ...task,
+    weeks: Array.from(new Set(task.weeks.map((week) => canonicalWeek(week, weekYear)))),
+    status: statusMapping[statusMappingKey(task.rawStatus)] ?? task.status
+  }));
+}
+
+function sourceName(fileName: string, sheet: string, multiSheet: boolean) {
+  return multiSheet ? `${fileName} / ${sheet}` : fileName;
+}
+
+// Combines uploaded files into one dataset. A key already loaded from an earlier file is skipped,
+// and a conflict issue is raised when the two copies disagree on status or assignee.
+// Only real Jira keys identify a task across files; blank ("-") or free-text keys never match each other.
+// Status issues are raised here rather than kept from the worker, so they follow the user's status mapping.
+const JIRA_KEY_PATTERN = /^[A-Z][A-Z0-9]+-\d+$/;
+
+function mergeLoadedSources(sources: LoadedSource[], settings: TaskSettings) {
+  const relabel = sources.length > 1;
+  const tasks: Task[] = [];
+  const issues: ImportIssue[] = [];
+  const conflictCounts = new Map<string, number>();
+  const seen = new Map<string, { task: Task; sourceId: string; fileName: string }>();
+
+  sources.forEach((source) => {
+    const sheets = new Set(source.tasks.map((task) => task.source));
+    const label = (sheet: string) => (relabel ? sourceName(source.fileName, sheet, sheets.size > 1) : sheet);
+    source.issues.forEach((issue) => {
+      if (issue.kind !== "status") issues.push({ ...issue, source: label(issue.source) });
+    });
+
+    prepareTasks(source.tasks, settings).forEach((task) => {
+      const labelled = { ...task, source: label(task.source) };
+      if (task.status === "other") {
+        issues.push({
+          kind: "status",
+          source: labelled.source,
+          row: task.sourceRow,
+          taskId: task.taskId,
+          value: task.rawStatus,
+          message: "Status is not a known workflow status"
+        });
+      }
+      const key = JIRA_KEY_PATTERN.test(task.taskId.toUpperCase()) ? task.taskId.toUpperCase() : "";
+      const first = key ? seen.get(key) : undefined;
+      if (!first || first.sourceId === source.id) {
+        if (key && !first) seen.set(key, { task: labelled, sourceId: source.id, fileName: source.fileName });
+        tasks.push(labelled);
+        return;
+      }
+
+      const differences: string[] = [];
+      if (first.task.status !== task.status) {
+        differences.push(`status "${first.task.rawStatus || first.task.status}" vs "${task.rawStatus || task.status}"`);
+      }
+      if (first.task.assignee !== task.assignee) differences.push(`assignee "${first.task.assignee}" vs "${task.assignee}"`);
+      if (!differences.length) return;
+
+      conflictCounts.set(source.id, (conflictCounts.get(source.id) ?? 0) + 1);
+      issues.push({
+        kind: "conflict",
+        source: labelled.source,
+        row: task.sourceRow,
+        taskId: task.taskId,
+        value: [task.rawStatus, task.assignee].join(" / "),
+        message: `Also in ${first.fileName} with ${differences.join(" and ")}; keeping the ${first.fileName} copy.`
+      });
+    });
+  });
+
+  return { tasks, issues, conflictCounts };
+}
+
+function weekParts(week: string) {
+  const m = week.match(/^(\d{4})-W(\d{2})$/);
+  return m ? { year: Number(m[1]), week: Number(m[2]) } : null;
+}
+
 function weekIndex(week: string) {
-  const m = week.match(/^W(\d{1,2})$/i);
-  return m ? Number(m[1]) : 999;
+  const parts = weekParts(week);
+  return parts ? parts.year * 100 + parts.week : 999999;
+}
+
+function latestWeek(weeks: string[]) {
+  return weeks.reduce((latest, week) => (weekIndex(week) > weekIndex(latest) ? week : latest), weeks[0]);
+}
+
+// Mean and population standard deviation over the trailing `window` values ending at each index.
+function rollingStats(values: number[], window: number) {
+  return values.map((_, index) => {
+    const slice = values.slice(Math.max(0, index - window + 1), index + 1);
+    const mean = slice.reduce((sum, value) => sum + value, 0) / slice.length;
+    const variance = slice.reduce((sum, value) => sum + (value - mean) ** 2, 0) / slice.length;
+    return { mean: Math.round(mean * 10) / 10, sd: Math.round(Math.sqrt(variance) * 10) / 10 };
+  });
+}
+
+function isoWeeksInYear(year: number) {
+  // 28 December always falls in the last ISO week of its year.
+  return isoWeekInfo(new Date(year, 11, 28)).week;
 }
 
 function previousWeek(week: string) {
-  const m = week.match(/^W(\d{1,2})$/i);
-  if (!m) return "";
-  const n = Number(m[1]);
-  if (n <= 1) return "";
-  return `W${String(n - 1).padStart(2, "0")}`;
+  const parts = weekParts(week);
+  if (!parts) return "";
+  if (parts.week > 1) return weekCode(parts.year, parts.week - 1);
+  return weekCode(parts.year - 1, isoWeeksInYear(parts.year - 1));
+}
+
+// UTC time of the Monday that starts an ISO week.
+function isoWeekMonday(year: number, week: number) {
+  const jan4 = Date.UTC(year, 0, 4);
+  const jan4Day = new Date(jan4).getUTCDay() || 7;
+  return jan4 + ((week - 1) * 7 - (jan4Day - 1)) * 86400000;
+}
+
+// Whole ISO weeks from `from` to `to`, so W52 to the next year's W01 is 1.
+function weeksBetween(from: string, to: string) {
+  const a = weekParts(from);
+  const b = weekParts(to);
+  if (!a || !b) return 0;
+  return Math.round((isoWeekMonday(b.year, b.week) - isoWeekMonday(a.year, a.week)) / (7 * 86400000));
+}
+
+// Nearest-rank percentile of an ascending list.
+function percentile(sorted: number[], p: number) {
+  if (!sorted.length) return null;
+  return sorted[Math.min(sorted.length - 1, Math.max(0, Math.ceil((p / 100) * sorted.length) - 1))];
 }
 
 function statusIndex(status: Status) {
   if (status === "open") return 0;
-  if (status === "inprogress") return 1;
-  if (status === "done") return 2;
-  return 3;
+  if (status === "blocked") return 1;
+  if (status === "inprogress") return 2;
+  if (status === "review") return 3;
+  if (status === "done") return 4;
+  if (status === "cancelled") return 5;
+  return 6;
+}
+
+// Open < in progress or blocked < review < done; cancelled and unmapped statuses sit off this scale.
+function progressRank(status: Status) {
+  if (status === "open") return 0;
+  if (status === "inprogress" || status === "blocked") return 1;
+  if (status === "review") return 2;
+  if (status === "done") return 3;
+  return null;
+}
+
+function isRegression(from: Status, to: Status) {
+  const a = progressRank(from);
+  const b = progressRank(to);
+  return a !== null && b !== null && b < a;
+}
+
+function issueTypeLabel(issueType: string) {
+  return issueType === "-" ? "No type" : issueType;
 }
 
 function statusLabel(status: Status) {
-  if (status === "inprogress") return "in progress";
-  return status;
+  return STATUS_CATEGORIES.find((category) => category.key === status)?.label ?? status;
+}
+
+function isActiveStatus(status: Status | "-") {
+  return status === "open" || status === "inprogress" || status === "review" || status === "blocked";
+}
+
+function isClosedStatus(status: Status | "-") {
+  return status === "done" || status === "cancelled";
+}
+
+function emptyStatusSummary() {
+  return Object.fromEntries(STATUS_CATEGORIES.map((category) => [category.key, 0])) as Record<Status, number>;
 }
 
 function twoDigits(value: number) {
@@ -97,9 +595,29 @@ function weekdayName(date: Date) {
 }
 
 type ParseWorkerResponse =
-  | { type: "success"; requestId: number; rowCount: number; tasks: Task[] }
+  | { type: "success"; requestId: number; rowCount: number; tasks: Task[]; issues: ImportIssue[]; updatedAt: number | null }
+  | { type: "sheets"; requestId: number; rowCount: number; sheets: SheetInfo[] }
+  | {
+      type: "mapping";
+      requestId: number;
+      rowCount: number;
+      sheet: string;
+      signature: string;
+      columns: string[];
+      preview: RawRow[];
+      mapping: ColumnMapping;
+    }
+  | { type: "cancelled"; requestId: number; rowCount: number }
   | { type: "error"; requestId: number; rowCount: number; error: string };
 
+type ParseWorkerMessage = ParseWorkerResponse | ({ type: "progress"; requestId: number } & ParseProgress);
+
+type ParseRequest = {
+  resolve: (response: ParseWorkerResponse) => void;
+  reject: (error: Error) => void;
+  onProgress?: (progress: ParseProgress) => void;
+};
+
 function sanitizeCell(value: string | number) {
   return String(value ?? "").replace(/\r?\n/g, " ").replace(/\t/g, " ").trim();
 }
@@ -113,39 +631,75 @@ function escapeHtml(value: string | number) {
     .replace(/'/g, "&#39;");
 }
 
+function csvCell(value: string | number) {
+  const text = String(value ?? "");
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+function downloadFile(fileName: string, content: BlobPart, type: string) {
+  const url = URL.createObjectURL(new Blob([content], { type }));
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  URL.revokeObjectURL(url);
+}
+
 function displayCount(value: number) {
-  return value === 0 ? "-" : String(value);
+  return value === 0 ? "-" : String(Math.round(value * 10) / 10);
 }
 
-function StatusBadge({ status }: { status: Status | "-" }) {
+function utilizationLabel(row: { capacity: number | null; utilization: number | null } | undefined) {
+  if (!row || row.utilization === null) return "-";
+  return row.capacity === 0 ? "on leave" : `${Math.round(row.utilization * 100)}%`;
+}
+
+// Remaining points leave out done and cancelled work, so only outstanding load is summed.
+function workloadValue(task: { status: Status; storyPoint: number | null }, measure: WorkloadMeasure) {
+  if (measure === "count") return 1;
+  if (measure === "remaining" && isClosedStatus(task.status)) return 0;
+  return task.storyPoint ?? 0;
+}
+
+function StatusBadge({ status, label }: { status: Status | "-"; label?: string }) {
   if (status === "-") return <span>-</span>;
-  const color =
-    status === "open"
-      ? "text-sky-600"
-      : status === "inprogress"
-        ? "text-amber-500"
-        : status === "done"
-          ? "text-emerald-600"
-          : "text-slate-500";
+  const color = STATUS_CATEGORIES.find((category) => category.key === status)?.className ?? "text-slate-500";
   return (
-    <span className={`inline-flex items-center gap-1 ${color}`}>
+    <span className={`inline-flex items-center gap-1 ${color}`} title={label ? statusLabel(status) : undefined}>
       <Circle className="h-3.5 w-3.5 fill-current" />
-      {statusLabel(status)}
+      {label || statusLabel(status)}
     </span>
   );
 }
 
+function FieldChanges({ changes }: { changes: SnapshotFieldChange[] }) {
+  if (!changes.length) return <span className="text-muted-foreground">-</span>;
+  return (
+    <div className="space-y-0.5 text-xs">
+      {changes.map((change) => (
+        <div key={change.field}>
+          <span className="font-medium">{change.label}:</span>{" "}
+          <span className="text-red-600 line-through">{change.before || "-"}</span> →{" "}
+          <span className="text-emerald-700">{change.after || "-"}</span>
+        </div>
+      ))}
+    </div>
+  );
+}
+
 function AccordionSection({
+  id,
   title,
   description,
   children
 }: {
+  id?: string;
   title: string;
   description: string;
   children: ReactNode;
 }) {
   return (
-    <details open className="group overflow-hidden rounded-2xl border border-white/50 bg-white/70 shadow-[0_15px_45px_rgba(50,50,93,0.09)] backdrop-blur-xl">
+    <details id={id} open className="group overflow-hidden rounded-2xl border border-white/50 bg-white/70 shadow-[0_15px_45px_rgba(50,50,93,0.09)] backdrop-blur-xl">
       <summary className="flex cursor-pointer list-none items-center justify-between gap-3 border-b bg-white px-5 py-4">
         <div>
           <div className="text-base font-semibold">{title}</div>
@@ -158,20 +712,61 @@ function AccordionSection({
   );
 }
 
-async function parseTasksWithWorker(file: File, requestId: number) {
-  const data = await file.arrayBuffer();
+// One long-lived worker serves every upload so a cancel message can reach a parse that is still running.
+let parseWorker: Worker | null = null;
+let nextParseRequestId = 0;
+const parseRequests = new Map<number, ParseRequest>();
+
+function getParseWorker() {
+  if (parseWorker) return parseWorker;
   const worker = new Worker(new URL("./excel.worker.ts", import.meta.url), { type: "module" });
+  worker.onmessage = (event: MessageEvent<ParseWorkerMessage>) => {
+    const message = event.data;
+    const request = parseRequests.get(message.requestId);
+    if (!request) return;
+    if (message.type === "progress") {
+      request.onProgress?.({ stage: message.stage, rowsParsed: message.rowsParsed, totalRows: message.totalRows });
+      return;
+    }
+    parseRequests.delete(message.requestId);
+    request.resolve(message);
+  };
+  worker.onerror = () => {
+    parseRequests.forEach((request) => request.reject(new Error("Worker parse failed")));
+    parseRequests.clear();
+    worker.terminate();
+    parseWorker = null;
+  };
+  parseWorker = worker;
+  return worker;
+}
+
+function parseFormat(fileName: string) {
+  const name = fileName.toLowerCase();
+  if (name.endsWith(".json")) return "json";
+  if (name.endsWith(".csv")) return "csv";
+  return "sheet";
+}
+
+async function parseTasksWithWorker(
+  file: File,
+  options: ParseOptions,
+  { onProgress, signal }: { onProgress?: (progress: ParseProgress) => void; signal?: AbortSignal } = {}
+) {
+  const data = await file.arrayBuffer();
+  const requestId = ++nextParseRequestId;
+  if (signal?.aborted) return { type: "cancelled", requestId, rowCount: 0 } satisfies ParseWorkerResponse;
+
+  const worker = getParseWorker();
+  const onAbort = () => worker.postMessage({ type: "cancel", requestId });
+  signal?.addEventListener("abort", onAbort, { once: true });
   try {
     return await new Promise<ParseWorkerResponse>((resolve, reject) => {
-      worker.onmessage = (event: MessageEvent<ParseWorkerResponse>) => {
-        if (event.data.requestId !== requestId) return;
-        resolve(event.data);
-      };
-      worker.onerror = () => reject(new Error("Worker parse failed"));
-      worker.postMessage({ type: "parse", requestId, buffer: data }, [data]);
+      parseRequests.set(requestId, { resolve, reject, onProgress });
+      worker.postMessage({ type: "parse", requestId, format: parseFormat(file.name), buffer: data, ...options }, [data]);
     });
   } finally {
-    worker.terminate();
+    signal?.removeEventListener("abort", onAbort);
   }
 }
 
@@ -186,10 +781,13 @@ function aggregateSnapshotTasks(tasks: Task[]) {
         taskId: task.taskId || "-",
         taskUrl: task.taskUrl,
         taskName: task.name || "-",
+        issueType: task.issueType,
+        epicLink: task.epicLink,
         module: task.module,
         assignee: task.assignee,
         storyPoint: task.storyPoint,
         status: task.status,
+        rawStatus: task.rawStatus,
         weeks: [...task.weeks].sort((a, b) => weekIndex(a) - weekIndex(b))
       });
       return;
@@ -200,24 +798,74 @@ function aggregateSnapshotTasks(tasks: Task[]) {
       ...prev,
       taskUrl: prev.taskUrl || task.taskUrl,
       taskName: prev.taskName === "-" ? task.name || "-" : prev.taskName,
+      issueType: prev.issueType === "-" ? task.issueType : prev.issueType,
+      epicLink: prev.epicLink === "-" ? task.epicLink : prev.epicLink,
       module: prev.module || task.module,
       assignee: prev.assignee || task.assignee,
-      storyPoint: prev.storyPoint || task.storyPoint,
-      status: statusIndex(task.status) > statusIndex(prev.status) ? task.status : prev.status,
+      storyPoint: prev.storyPoint ?? task.storyPoint,
+      ...(statusIndex(task.status) > statusIndex(prev.status) ? { status: task.status, rawStatus: task.rawStatus } : {}),
       weeks: mergedWeeks
     });
   });
   return Array.from(map.values());
 }
 
+function snapshotLabel(name: string) {
+  return name.replace(/\.[^.]+$/, "");
+}
+
+// Reads 2026-03-14, 20260314, 2026-W11 or a bare week11/W11 (in the default year) from a file name.
+function dateFromFileName(name: string, defaultYear: number) {
+  const label = snapshotLabel(name);
+  const day = label.match(/(?:^|\D)(\d{4})-?(\d{2})-?(\d{2})(?!\d)/);
+  if (day && Number(day[2]) >= 1 && Number(day[2]) <= 12 && Number(day[3]) >= 1 && Number(day[3]) <= 31) {
+    return Date.UTC(Number(day[1]), Number(day[2]) - 1, Number(day[3]));
+  }
+  const isoWeek = label.match(/(?:^|\D)(\d{4})-?W(\d{1,2})(?!\d)/i);
+  if (isoWeek) return isoWeekMonday(Number(isoWeek[1]), Number(isoWeek[2]));
+  const week = label.match(/(?:^|[^a-z])(?:week|wk|w)[\s_-]?(\d{1,2})(?!\d)/i);
+  return week ? isoWeekMonday(defaultYear, Number(week[1])) : null;
+}
+
+function inferSnapshotDate(name: string, updatedAt: number | null, lastModified: number | null, defaultYear: number) {
+  const fromName = dateFromFileName(name, defaultYear);
+  if (fromName !== null) return { time: fromName, source: "file name" } satisfies SnapshotDate;
+  if (updatedAt !== null) return { time: updatedAt, source: "Updated column" } satisfies SnapshotDate;
+  if (lastModified) return { time: lastModified, source: "file date" } satisfies SnapshotDate;
+  return undefined;
+}
+
+function formatSnapshotDate(time: number) {
+  return new Date(time).toLocaleDateString(undefined, { year: "numeric", month: "short", day: "numeric", timeZone: "UTC" });
+}
+
+function snapshotOrder(a: SnapshotSlot, b: SnapshotSlot) {
+  if (a.capturedAt && b.capturedAt && a.capturedAt.time !== b.capturedAt.time) return a.capturedAt.time - b.capturedAt.time;
+  return a.name.localeCompare(b.name, undefined, { numeric: true });
+}
+
+// Keeps the series in date order, falling back to file-name order so snapshot_week9 sorts before snapshot_week10.
+function insertSnapshot(series: SnapshotSlot[], snapshot: SnapshotSlot) {
+  const rest = series.filter((item) => item.name !== snapshot.name);
+  const index = rest.findIndex((item) => snapshotOrder(item, snapshot) > 0);
+  return index < 0 ? [...rest, snapshot] : [...rest.slice(0, index), snapshot, ...rest.slice(index)];
+}
+
 function snapshotNoteForStatuses(statusA: Status | "-", statusB: Status | "-") {
-  if (statusA === statusB && (statusA === "open" || statusA === "inprogress")) {
-    return "Still not done in both snapshots - follow up with owner";
+  if (statusA === statusB && isActiveStatus(statusA)) {
+    return statusA === "blocked"
+      ? "Blocked in both snapshots - escalate the blocker"
+      : "Still not done in both snapshots - follow up with owner";
   }
   if (statusA === "open" && statusB === "inprogress") return "Work started after the previous snapshot";
   if (statusA === "open" && statusB === "done") return "Task moved from open to done";
-  if (statusA === "inprogress" && statusB === "done") return "Task completed in the latest snapshot";
-  if (statusA === "inprogress" && statusB === "open") return "Status moved backward - verify task update";
+  if ((statusA === "inprogress" || statusA === "review") && statusB === "done") return "Task completed in the latest snapshot";
+  if (statusA === "inprogress" && statusB === "review") return "Work moved to review";
+  if (statusA === "review" && statusB === "inprogress") return "Sent back from review - check review feedback";
+  if ((statusA === "inprogress" || statusA === "review") && statusB === "open") return "Status moved backward - verify task update";
+  if (isActiveStatus(statusA) && statusB === "blocked") return "Task became blocked after the previous snapshot";
+  if (statusA === "blocked" && isActiveStatus(statusB)) return "Task unblocked after the previous snapshot";
+  if (statusA !== "-" && statusA !== "cancelled" && statusB === "cancelled") return "Task cancelled after the previous snapshot";
   if (statusA === "done" && statusB !== "done" && statusB !== "-") return "Task reopened after being done";
   if (statusA === "-" && statusB !== "-") return "Newly added in the latest snapshot";
   if (statusA !== "-" && statusB === "-") return "Missing in the latest snapshot - verify whether it was dropped";
@@ -225,15 +873,51 @@ function snapshotNoteForStatuses(statusA: Status | "-", statusB: Status | "-") {
 }
 
 export default function App() {
-  const [rowCount, setRowCount] = useState(0);
-  const [tasks, setTasks] = useState<Task[]>([]);
+  const [loadedSources, setLoadedSources] = useState<LoadedSource[]>([]);
+  const [mergeUploads, setMergeUploads] = useState(false);
+  const [datasetLibrary, setDatasetLibrary] = useState<DatasetMeta[]>([]);
+  // Session writes wait for the restore so an empty first render doesn't wipe the saved session.
+  const [sessionRestored, setSessionRestored] = useState(false);
   const [error, setError] = useState("");
-  const [toast, setToast] = useState<{ message: string; type: "success" | "error" } | null>(null);
+  const [toast, setToast] = useState<{ message: string; type: ToastType } | null>(null);
   const [isParsing, setIsParsing] = useState(false);
+  const [parseProgress, setParseProgress] = useState<ParseProgress | null>(null);
+  const parseAbortRef = useRef<AbortController | null>(null);
+  const [columnMappings, setColumnMappings] = useState<Record<string, ColumnMapping>>(() =>
+    loadStoredJson(COLUMN_MAPPINGS_STORAGE_KEY, {})
+  );
+  const [jiraFields, setJiraFields] = useState<JiraFieldConfig>(() => loadStoredJson(JIRA_FIELDS_STORAGE_KEY, DEFAULT_JIRA_FIELDS));
+  const [pendingMapping, setPendingMapping] = useState<PendingColumnMapping | null>(null);
+  const [pendingSheets, setPendingSheets] = useState<PendingSheetSelection | null>(null);
   const uploadTokenRef = useRef(0);
+  // Files still waiting to be parsed when merging several uploads at once.
+  const uploadQueueRef = useRef<File[]>([]);
+  const loadedSourcesRef = useRef<LoadedSource[]>([]);
+  // Set once the user loads data, so a slow session restore never replaces it.
+  const userLoadedDataRef = useRef(false);
   const [now, setNow] = useState(new Date());
   const currentWeekInfo = isoWeekInfo(now);
-  const currentWeekCode = `W${twoDigits(currentWeekInfo.week)}`;
+  const currentWeekCode = weekCode(currentWeekInfo.year, currentWeekInfo.week);
+  const [weekYear, setWeekYear] = useState(() => loadStoredJson(WEEK_YEAR_STORAGE_KEY, currentWeekInfo.year));
+  const [statusMapping, setStatusMapping] = useState<Record<string, Status>>(() =>
+    loadStoredJson(STATUS_MAPPING_STORAGE_KEY, {})
+  );
+  const [estimationScale, setEstimationScale] = useState<EstimationScale>(() =>
+    loadStoredJson(ESTIMATION_SCALE_STORAGE_KEY, ESTIMATION_SCALE_PRESETS[0])
+  );
+  const [workloadMeasure, setWorkloadMeasure] = useState<WorkloadMeasure>(() => loadStoredJson(WORKLOAD_MEASURE_STORAGE_KEY, "count"));
+  const [capacityPlan, setCapacityPlan] = useState<CapacityPlan>(() => loadStoredJson(CAPACITY_STORAGE_KEY, EMPTY_CAPACITY_PLAN));
+  const taskSettings = useMemo<TaskSettings>(() => ({ weekYear, statusMapping }), [weekYear, statusMapping]);
+  const parsedTasks = useMemo(() => loadedSources.flatMap((source) => source.tasks), [loadedSources]);
+  const dataset = useMemo(() => mergeLoadedSources(loadedSources, taskSettings), [loadedSources, taskSettings]);
+  const tasks = dataset.tasks;
+  // The worker cannot see the estimation scale, so text estimates that name a scale bucket ("M") are not issues.
+  const importIssues = useMemo(
+    () =>
+      dataset.issues.filter((issue) => issue.kind !== "storyPoint" || estimateBucketIndex(estimationScale, null, issue.value) === -1),
+    [dataset.issues, estimationScale]
+  );
+  const rowCount = loadedSources.reduce((sum, source) => sum + source.rowCount, 0);
   const currentRange = weekRangeMonToFri(now);
   const [activeTab, setActiveTab] = useState<"main" | "manager" | "snapshot">("main");
 
@@ -241,125 +925,515 @@ export default function App() {
   const [projectWeekFilters, setProjectWeekFilters] = useState<string[]>([]);
   const [projectModuleFilters, setProjectModuleFilters] = useState<string[]>([]);
   const [projectAssigneeFilter, setProjectAssigneeFilter] = useState("all");
+  const [projectSourceFilters, setProjectSourceFilters] = useState<string[]>([]);
+  const [projectIssueTypeFilters, setProjectIssueTypeFilters] = useState<string[]>([]);
   const [assigneeAllWeeks, setAssigneeAllWeeks] = useState(true);
   const [assigneeWeekFilters, setAssigneeWeekFilters] = useState<string[]>([]);
+  const [assigneeIssueTypeFilters, setAssigneeIssueTypeFilters] = useState<string[]>([]);
+  const [managerIssueTypeFilters, setManagerIssueTypeFilters] = useState<string[]>([]);
+  const [issueTypeGroup, setIssueTypeGroup] = useState<"module" | "week">("module");
+  const [flowMeasure, setFlowMeasure] = useState<"count" | "storyPoint">("count");
+  const [velocityGroup, setVelocityGroup] = useState<"overall" | "module" | "assignee">("overall");
+  const [regressionSource, setRegressionSource] = useState<"weeks" | "snapshots">("weeks");
+  const [selectedEpic, setSelectedEpic] = useState("");
+  const [velocitySeries, setVelocitySeries] = useState("");
+  const [velocityWindow, setVelocityWindow] = useState(3);
+  const [flowMetric, setFlowMetric] = useState<"leadTime" | "cycleTime">("leadTime");
+  const [flowMetricGroup, setFlowMetricGroup] = useState<"module" | "issueType">("module");
+  const [iterationStart, setIterationStart] = useState("");
+  const [iterationEnd, setIterationEnd] = useState("");
   const [compareWeekA, setCompareWeekA] = useState("");
   const [compareWeekB, setCompareWeekB] = useState("");
   const [managerWeek, setManagerWeek] = useState("");
-  const [snapshotBaseTasks, setSnapshotBaseTasks] = useState<Task[]>([]);
-  const [snapshotCurrentTasks, setSnapshotCurrentTasks] = useState<Task[]>([]);
-  const [snapshotBaseName, setSnapshotBaseName] = useState("");
-  const [snapshotCurrentName, setSnapshotCurrentName] = useState("");
+  const [snapshots, setSnapshots] = useState<SnapshotSlot[]>([]);
+  const [snapshotCompareA, setSnapshotCompareA] = useState("");
+  const [snapshotCompareB, setSnapshotCompareB] = useState("");
   const [snapshotError, setSnapshotError] = useState("");
-  const [snapshotShowChanged, setSnapshotShowChanged] = useState(true);
-  const [snapshotShowStillActive, setSnapshotShowStillActive] = useState(true);
-  const [isParsingSnapshotBase, setIsParsingSnapshotBase] = useState(false);
-  const [isParsingSnapshotCurrent, setIsParsingSnapshotCurrent] = useState(false);
-  const snapshotBaseTokenRef = useRef(0);
-  const snapshotCurrentTokenRef = useRef(0);
+  const [snapshotCategoryFilters, setSnapshotCategoryFilters] = useState<SnapshotCategory[]>(DEFAULT_SNAPSHOT_CATEGORIES);
+  const [snapshotModuleFilter, setSnapshotModuleFilter] = useState("all");
+  const [snapshotAssigneeFilter, setSnapshotAssigneeFilter] = useState("all");
+  const [snapshotSearch, setSnapshotSearch] = useState("");
+  const [snapshotAttentionOnly, setSnapshotAttentionOnly] = useState(false);
+  const [snapshotTimelineChangedOnly, setSnapshotTimelineChangedOnly] = useState(true);
+  const [snapshotFieldFilter, setSnapshotFieldFilter] = useState<SnapshotField | "any" | "all">("all");
+  const [isParsingSnapshots, setIsParsingSnapshots] = useState(false);
+  const [snapshotParseProgress, setSnapshotParseProgress] = useState<ParseProgress | null>(null);
+  const snapshotParseAbortRef = useRef<AbortController | null>(null);
+  // Files still waiting to be parsed when a sheet or mapping dialog interrupts a multi-file upload.
+  const snapshotQueueRef = useRef<File[]>([]);
+  const [paletteOpen, setPaletteOpen] = useState(false);
+  const [jumpTaskKey, setJumpTaskKey] = useState("");
 
   useEffect(() => {
     const timer = window.setInterval(() => setNow(new Date()), 1000);
     return () => window.clearInterval(timer);
   }, []);
 
-  const handleFileUpload = async (file: File | null) => {
-    if (!file) return;
+  useEffect(() => {
+    const onKeyDown = (event: KeyboardEvent) => {
+      if ((event.ctrlKey || event.metaKey) && event.key.toLowerCase() === "k") {
+        event.preventDefault();
+        setJumpTaskKey("");
+        setPaletteOpen((open) => !open);
+      }
+    };
+    window.addEventListener("keydown", onKeyDown);
+    return () => window.removeEventListener("keydown", onKeyDown);
+  }, []);
+
+  useEffect(() => {
+    loadedSourcesRef.current = loadedSources;
+  }, [loadedSources]);
+
+  useEffect(() => {
+    saveStoredJson(COLUMN_MAPPINGS_STORAGE_KEY, columnMappings);
+  }, [columnMappings]);
+
+  useEffect(() => {
+    saveStoredJson(WEEK_YEAR_STORAGE_KEY, weekYear);
+  }, [weekYear]);
+
+  useEffect(() => {
+    saveStoredJson(JIRA_FIELDS_STORAGE_KEY, jiraFields);
+  }, [jiraFields]);
+
+  useEffect(() => {
+    saveStoredJson(STATUS_MAPPING_STORAGE_KEY, statusMapping);
+  }, [statusMapping]);
 
+  useEffect(() => {
+    saveStoredJson(ESTIMATION_SCALE_STORAGE_KEY, estimationScale);
+  }, [estimationScale]);
+
+  useEffect(() => {
+    saveStoredJson(WORKLOAD_MEASURE_STORAGE_KEY, workloadMeasure);
+  }, [workloadMeasure]);
+
+  useEffect(() => {
+    saveStoredJson(CAPACITY_STORAGE_KEY, capacityPlan);
+  }, [capacityPlan]);
+
+  // Resolves to false when the file is waiting on a sheet or column mapping dialog.
+  const handleFileUpload = async (file: File, options: ParseOptions = {}) => {
     const currentToken = ++uploadTokenRef.current;
+    parseAbortRef.current?.abort();
+    const controller = new AbortController();
+    parseAbortRef.current = controller;
     setIsParsing(true);
+    setParseProgress(null);
 
     try {
       setError("");
       setToast(null);
-      const workerResult = await parseTasksWithWorker(file, currentToken);
+      const workerResult = await parseTasksWithWorker(
+        file,
+        { savedMappings: columnMappings, jiraFields, ...options },
+        {
+          signal: controller.signal,
+          onProgress: (progress) => {
+            if (currentToken === uploadTokenRef.current) setParseProgress(progress);
+          }
+        }
+      );
+
+      if (currentToken !== uploadTokenRef.current) return true;
+
+      if (workerResult.type === "cancelled") {
+        uploadQueueRef.current = [];
+        showToast("Import cancelled", "info");
+        return true;
+      }
 
-      if (currentToken !== uploadTokenRef.current) return;
+      if (workerResult.type === "sheets") {
+        setPendingSheets({ target: "main", file, sheets: workerResult.sheets });
+        return false;
+      }
+
+      if (workerResult.type === "mapping") {
+        setPendingMapping({ target: "main", file, sheets: options.sheets, ...workerResult });
+        return false;
+      }
 
       if (workerResult.type === "error") {
-        setError(workerResult.error);
-        setRowCount(workerResult.rowCount);
-        setTasks([]);
-        return;
+        setError(mergeUploads ? `${file.name}: ${workerResult.error}` : workerResult.error);
+        if (!mergeUploads) setLoadedSources([]);
+        return true;
       }
 
-      setRowCount(workerResult.rowCount);
-      setTasks(workerResult.tasks);
-      setProjectAllWeeks(true);
-      setProjectWeekFilters([]);
-      setProjectModuleFilters([]);
-      setProjectAssigneeFilter("all");
-      setAssigneeAllWeeks(true);
-      setAssigneeWeekFilters([]);
-      const weekSet = new Set<string>();
-      workerResult.tasks.forEach((task) => task.weeks.forEach((week) => weekSet.add(week)));
-      const sortedWeeks = Array.from(weekSet).sort((a, b) => weekIndex(a) - weekIndex(b));
-      setCompareWeekA(sortedWeeks.length >= 2 ? sortedWeeks[sortedWeeks.length - 2] : sortedWeeks[0] ?? "");
-      setCompareWeekB(sortedWeeks.length >= 1 ? sortedWeeks[sortedWeeks.length - 1] : "");
-      setManagerWeek(sortedWeeks.includes(currentWeekCode) ? currentWeekCode : (sortedWeeks[sortedWeeks.length - 1] ?? ""));
+      const loaded: LoadedSource = {
+        id: datasetIdForFile(file),
+        fileName: file.name,
+        rowCount: workerResult.rowCount,
+        tasks: workerResult.tasks,
+        issues: workerResult.issues,
+        capturedAt: inferSnapshotDate(file.name, workerResult.updatedAt, file.lastModified, weekYear)
+      };
+      storeDataset(loaded, file.size);
+      addLoadedSource(loaded, mergeUploads);
     } catch {
-      if (currentToken !== uploadTokenRef.current) return;
-      setError("Unable to read file. Please check Excel/CSV format.");
-      setRowCount(0);
-      setTasks([]);
+      if (currentToken !== uploadTokenRef.current) return true;
+      setError("Unable to read file. Please check Excel/CSV/JSON format.");
+      if (!mergeUploads) setLoadedSources([]);
     } finally {
-      if (currentToken === uploadTokenRef.current) setIsParsing(false);
+      if (currentToken === uploadTokenRef.current) {
+        setIsParsing(false);
+        setParseProgress(null);
+        parseAbortRef.current = null;
+      }
     }
+    return true;
+  };
+
+  // Mappings saved by a dialog are passed in because this closure may predate them.
+  const processUploadQueue = async (savedMappings: Record<string, ColumnMapping> = columnMappings) => {
+    while (uploadQueueRef.current.length) {
+      const file = uploadQueueRef.current.shift() as File;
+      if (!(await handleFileUpload(file, { savedMappings }))) return;
+    }
+  };
+
+  const handleFiles = (files: FileList | null) => {
+    if (!files?.length) return;
+    uploadQueueRef.current = mergeUploads ? Array.from(files) : [files[0]];
+    processUploadQueue();
   };
 
-  const handleSnapshotFileUpload = async (kind: "base" | "current", file: File | null) => {
-    if (!file) return;
+  // A re-uploaded file (same name and size) overwrites its library entry instead of adding another one.
+  const datasetIdForFile = (file: File) =>
+    datasetLibrary.find((item) => item.name === file.name && item.size === file.size)?.id ?? createDatasetId();
 
-    const tokenRef = kind === "base" ? snapshotBaseTokenRef : snapshotCurrentTokenRef;
-    const currentToken = ++tokenRef.current;
+  const storeDataset = ({ id, fileName, rowCount, tasks, issues, capturedAt }: LoadedSource, size: number) => {
+    const meta: DatasetMeta = { id, name: fileName, loadedAt: Date.now(), rowCount, size };
+    saveDataset<StoredDatasetData>(meta, { tasks, issues, capturedAt })
+      .then(() => setDatasetLibrary((prev) => [meta, ...prev.filter((item) => item.id !== id)]))
+      .catch(() => {
+        // IndexedDB can be unavailable (private mode, quota); the dataset still works for this session.
+      });
+  };
+
+  const applyLoadedSources = (nextSources: LoadedSource[]) => {
+    loadedSourcesRef.current = nextSources;
+    setLoadedSources(nextSources);
+    setProjectAllWeeks(true);
+    setProjectWeekFilters([]);
+    setProjectModuleFilters([]);
+    setProjectAssigneeFilter("all");
+    setProjectSourceFilters([]);
+    setProjectIssueTypeFilters([]);
+    setAssigneeAllWeeks(true);
+    setAssigneeWeekFilters([]);
+    setAssigneeIssueTypeFilters([]);
+    setManagerIssueTypeFilters([]);
+    const weekSet = new Set<string>();
+    nextSources.forEach((source) =>
+      prepareTasks(source.tasks, taskSettings).forEach((task) => task.weeks.forEach((week) => weekSet.add(week)))
+    );
+    const sortedWeeks = Array.from(weekSet).sort((a, b) => weekIndex(a) - weekIndex(b));
+    setCompareWeekA(sortedWeeks.length >= 2 ? sortedWeeks[sortedWeeks.length - 2] : sortedWeeks[0] ?? "");
+    setCompareWeekB(sortedWeeks.length >= 1 ? sortedWeeks[sortedWeeks.length - 1] : "");
+    setManagerWeek(sortedWeeks.includes(currentWeekCode) ? currentWeekCode : (sortedWeeks[sortedWeeks.length - 1] ?? ""));
+  };
+
+  const addLoadedSource = (loaded: LoadedSource, merge: boolean) => {
+    userLoadedDataRef.current = true;
+    // Re-adding a file with the same name replaces the earlier copy in place.
+    // Read through the ref so each file of a multi-file upload sees the ones added before it.
+    const current = loadedSourcesRef.current;
+    const nextSources = !merge
+      ? [loaded]
+      : current.some((source) => source.fileName === loaded.fileName)
+        ? current.map((source) => (source.fileName === loaded.fileName ? loaded : source))
+        : [...current, loaded];
+    applyLoadedSources(nextSources);
+  };
+
+  const addSnapshot = (snapshot: SnapshotSlot) => {
+    userLoadedDataRef.current = true;
+    setSnapshots((prev) => insertSnapshot(prev, snapshot));
+    // Fall back to the two most recent snapshots for the detailed diff.
+    setSnapshotCompareA("");
+    setSnapshotCompareB("");
+  };
+
+  const moveSnapshot = (id: string, offset: -1 | 1) => {
+    setSnapshots((prev) => {
+      const index = prev.findIndex((item) => item.id === id);
+      const target = index + offset;
+      if (index < 0 || target < 0 || target >= prev.length) return prev;
+      const next = [...prev];
+      [next[index], next[target]] = [next[target], next[index]];
+      return next;
+    });
+  };
+
+  const removeSnapshot = (id: string) => {
+    setSnapshots((prev) => prev.filter((item) => item.id !== id));
+  };
+
+  const sortSnapshotsByDate = () => {
+    setSnapshots((prev) => [...prev].sort(snapshotOrder));
+  };
 
+  const openStoredDataset = async (id: string, target: DatasetTarget) => {
+    try {
+      const stored = await loadDataset<StoredDatasetData>(id);
+      if (!stored) {
+        showToast("Dataset is no longer in the library", "error");
+        setDatasetLibrary((prev) => prev.filter((item) => item.id !== id));
+        return;
+      }
+      const { meta, data } = stored;
+      if (target === "snapshot") {
+        addSnapshot({ id, name: meta.name, tasks: data.tasks, capturedAt: data.capturedAt ?? inferSnapshotDate(meta.name, null, null, weekYear) });
+        showToast(`${meta.name} added to the snapshot series`, "success");
+        return;
+      }
+      setError("");
+      addLoadedSource({ id, fileName: meta.name, rowCount: meta.rowCount, ...data }, target === "add");
+      showToast(`${meta.name} restored`, "success");
+    } catch {
+      showToast("Unable to read the dataset library", "error");
+    }
+  };
+
+  const removeStoredDataset = (id: string) => {
+    deleteDataset(id)
+      .then(() => setDatasetLibrary((prev) => prev.filter((item) => item.id !== id)))
+      .catch(() => showToast("Unable to delete dataset", "error"));
+  };
+
+  const removeLoadedSource = (id: string) => {
+    setLoadedSources((prev) => prev.filter((source) => source.id !== id));
+    setProjectSourceFilters([]);
+  };
+
+  useEffect(() => {
+    let cancelled = false;
+    const restore = async () => {
+      try {
+        setDatasetLibrary(await listDatasets());
+        const session = loadDatasetSession();
+        const load = (id: string) => loadDataset<StoredDatasetData>(id);
+        const [main, series] = await Promise.all([Promise.all(session.main.map(load)), Promise.all(session.snapshots.map(load))]);
+        if (cancelled || userLoadedDataRef.current) return;
+
+        const sources = main.flatMap((stored) =>
+          stored ? [{ id: stored.meta.id, fileName: stored.meta.name, rowCount: stored.meta.rowCount, ...stored.data }] : []
+        );
+        if (sources.length) {
+          applyLoadedSources(sources);
+          setMergeUploads(sources.length > 1);
+        }
+        setSnapshots(
+          series.flatMap((stored) =>
+            stored
+              ? [
+                  {
+                    id: stored.meta.id,
+                    name: stored.meta.name,
+                    tasks: stored.data.tasks,
+                    // Datasets stored before dates were inferred still get a date from their file name.
+                    capturedAt: stored.data.capturedAt ?? inferSnapshotDate(stored.meta.name, null, null, weekYear)
+                  }
+                ]
+              : []
+          )
+        );
+        const restoredIds = new Set(series.flatMap((stored) => (stored ? [stored.meta.id] : [])));
+        if (restoredIds.has(session.compareA)) setSnapshotCompareA(session.compareA);
+        if (restoredIds.has(session.compareB)) setSnapshotCompareB(session.compareB);
+      } catch {
+        // Without IndexedDB the dashboard starts empty, as it did before the library existed.
+      } finally {
+        if (!cancelled) setSessionRestored(true);
+      }
+    };
+    restore();
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  useEffect(() => {
+    if (!sessionRestored) return;
+    const session: DatasetSession = {
+      main: loadedSources.map((source) => source.id),
+      snapshots: snapshots.map((snapshot) => snapshot.id),
+      compareA: snapshotCompareA,
+      compareB: snapshotCompareB
+    };
+    saveStoredJson(DATASET_SESSION_STORAGE_KEY, session);
+  }, [sessionRestored, loadedSources, snapshots, snapshotCompareA, snapshotCompareB]);
+
+  const activeDatasetIds = useMemo(
+    () => new Set([...loadedSources.map((source) => source.id), ...snapshots.map((snapshot) => snapshot.id)]),
+    [loadedSources, snapshots]
+  );
+
+  const cancelFileUpload = () => {
+    parseAbortRef.current?.abort();
+  };
+
+  const cancelSnapshotUpload = () => {
+    snapshotParseAbortRef.current?.abort();
+  };
+
+  // Resolves to false when the file is waiting on a sheet or column mapping dialog.
+  const handleSnapshotFileUpload = async (file: File, options: ParseOptions = {}) => {
+    const controller = new AbortController();
+    snapshotParseAbortRef.current = controller;
     setSnapshotError("");
     setToast(null);
-    if (kind === "base") setIsParsingSnapshotBase(true);
-    else setIsParsingSnapshotCurrent(true);
+    setIsParsingSnapshots(true);
+    setSnapshotParseProgress(null);
 
     try {
-      const workerResult = await parseTasksWithWorker(file, currentToken);
-      if (currentToken !== tokenRef.current) return;
+      const workerResult = await parseTasksWithWorker(
+        file,
+        { savedMappings: columnMappings, jiraFields, ...options },
+        { signal: controller.signal, onProgress: setSnapshotParseProgress }
+      );
+      if (workerResult.type === "cancelled") {
+        snapshotQueueRef.current = [];
+        showToast("Import cancelled", "info");
+        return true;
+      }
 
-      if (workerResult.type === "error") {
-        setSnapshotError(workerResult.error);
-        if (kind === "base") {
-          setSnapshotBaseTasks([]);
-          setSnapshotBaseName("");
-        } else {
-          setSnapshotCurrentTasks([]);
-          setSnapshotCurrentName("");
-        }
-        return;
+      if (workerResult.type === "sheets") {
+        setPendingSheets({ target: "snapshot", file, sheets: workerResult.sheets });
+        return false;
       }
 
-      if (kind === "base") {
-        setSnapshotBaseTasks(workerResult.tasks);
-        setSnapshotBaseName(file.name);
-      } else {
-        setSnapshotCurrentTasks(workerResult.tasks);
-        setSnapshotCurrentName(file.name);
+      if (workerResult.type === "mapping") {
+        setPendingMapping({ target: "snapshot", file, sheets: options.sheets, ...workerResult });
+        return false;
       }
-      showToast(kind === "base" ? "Baseline snapshot loaded" : "Latest snapshot loaded", "success");
-    } catch {
-      if (currentToken !== tokenRef.current) return;
-      setSnapshotError("Unable to read snapshot file. Please check Excel/CSV format.");
-      if (kind === "base") {
-        setSnapshotBaseTasks([]);
-        setSnapshotBaseName("");
-      } else {
-        setSnapshotCurrentTasks([]);
-        setSnapshotCurrentName("");
+
+      if (workerResult.type === "error") {
+        setSnapshotError(`${file.name}: ${workerResult.error}`);
+        return true;
       }
+
+      const loaded: LoadedSource = {
+        id: datasetIdForFile(file),
+        fileName: file.name,
+        rowCount: workerResult.rowCount,
+        tasks: workerResult.tasks,
+        issues: workerResult.issues,
+        capturedAt: inferSnapshotDate(file.name, workerResult.updatedAt, file.lastModified, weekYear)
+      };
+      storeDataset(loaded, file.size);
+      addSnapshot({ id: loaded.id, name: file.name, tasks: workerResult.tasks, capturedAt: loaded.capturedAt });
+      showToast(`${file.name} added to the snapshot series`, "success");
+    } catch {
+      setSnapshotError(`${file.name}: Unable to read snapshot file. Please check Excel/CSV/JSON format.`);
     } finally {
-      if (currentToken === tokenRef.current) {
-        if (kind === "base") setIsParsingSnapshotBase(false);
-        else setIsParsingSnapshotCurrent(false);
-      }
+      setIsParsingSnapshots(false);
+      setSnapshotParseProgress(null);
+      snapshotParseAbortRef.current = null;
+    }
+    return true;
+  };
+
+  // Mappings saved by a dialog are passed in because this closure may predate them.
+  const processSnapshotQueue = async (savedMappings: Record<string, ColumnMapping> = columnMappings) => {
+    while (snapshotQueueRef.current.length) {
+      const file = snapshotQueueRef.current.shift() as File;
+      if (!(await handleSnapshotFileUpload(file, { savedMappings }))) return;
     }
   };
 
+  const handleSnapshotFiles = (files: FileList | null) => {
+    if (!files?.length) return;
+    snapshotQueueRef.current = Array.from(files).sort((a, b) => a.name.localeCompare(b.name, undefined, { numeric: true }));
+    processSnapshotQueue();
+  };
+
+  const reparseFile = (target: ParseTarget, file: File, options: ParseOptions) => {
+    if (target === "main") {
+      handleFileUpload(file, options).then((done) => {
+        if (done) processUploadQueue(options.savedMappings);
+      });
+      return;
+    }
+    handleSnapshotFileUpload(file, options).then((done) => {
+      if (done) processSnapshotQueue(options.savedMappings);
+    });
+  };
+
+  const cancelPendingDialog = () => {
+    setPendingSheets(null);
+    setPendingMapping(null);
+    uploadQueueRef.current = [];
+    snapshotQueueRef.current = [];
+  };
+
+  const applyColumnMapping = (mapping: ColumnMapping) => {
+    if (!pendingMapping) return;
+    const { target, file, sheets, signature } = pendingMapping;
+    const savedMappings = { ...columnMappings, [signature]: mapping };
+    setColumnMappings(savedMappings);
+    setPendingMapping(null);
+    reparseFile(target, file, { sheets, savedMappings });
+  };
+
+  const applySheetSelection = (sheets: string[]) => {
+    if (!pendingSheets) return;
+    const { target, file } = pendingSheets;
+    setPendingSheets(null);
+    reparseFile(target, file, { sheets });
+  };
+
+  const statusMappingRows = useMemo(() => {
+    const map = new Map<string, { raw: string; count: number; detected: Status }>();
+    [...parsedTasks, ...snapshots.flatMap((snapshot) => snapshot.tasks)].forEach((task) => {
+      const key = statusMappingKey(task.rawStatus);
+      if (!key) return;
+      const prev = map.get(key) ?? { raw: task.rawStatus.trim(), count: 0, detected: task.status };
+      prev.count += 1;
+      map.set(key, prev);
+    });
+    return Array.from(map.entries())
+      .map(([key, row]) => ({
+        key,
+        raw: row.raw,
+        count: row.count,
+        category: statusMapping[key] ?? row.detected,
+        custom: key in statusMapping
+      }))
+      .sort((a, b) => b.count - a.count || a.raw.localeCompare(b.raw));
+  }, [parsedTasks, snapshots, statusMapping]);
+
+  const resetStatusMapping = (key?: string) => {
+    if (!key) {
+      setStatusMapping({});
+      return;
+    }
+    setStatusMapping((prev) => {
+      const next = { ...prev };
+      delete next[key];
+      return next;
+    });
+  };
+
+  const importIssueCounts = useMemo(() => {
+    const counts = new Map<ImportIssueKind, number>();
+    importIssues.forEach((issue) => counts.set(issue.kind, (counts.get(issue.kind) ?? 0) + 1));
+    return (Object.keys(IMPORT_ISSUE_LABELS) as ImportIssueKind[])
+      .filter((kind) => counts.has(kind))
+      .map((kind) => ({ kind, label: IMPORT_ISSUE_LABELS[kind], count: counts.get(kind) ?? 0 }));
+  }, [importIssues]);
+
+  const downloadImportIssues = () => {
+    const header = ["Source", "Row", "Key", "Problem", "Value", "Details"];
+    const lines = importIssues.map((issue) =>
+      [issue.source, issue.row, issue.taskId, IMPORT_ISSUE_LABELS[issue.kind], issue.value, issue.message].map(csvCell).join(",")
+    );
+    const baseName = loadedSources.length === 1 ? loadedSources[0].fileName.replace(/\.[^.]+$/, "") : "import";
+    // BOM so Excel opens the UTF-8 file with Vietnamese names intact.
+    downloadFile(`${baseName}-import-issues.csv`, `\uFEFF${[header.join(","), ...lines].join("\r\n")}`, "text/csv;charset=utf-8");
+  };
+
   const allWeeks = useMemo(() => {
     const set = new Set<string>();
     tasks.forEach((task) => {
@@ -368,6 +1442,18 @@ export default function App() {
     return Array.from(set).sort((a, b) => weekIndex(a) - weekIndex(b));
   }, [tasks]);
 
+  const allSources = useMemo(() => {
+    const set = new Set<string>();
+    tasks.forEach((task) => set.add(task.source));
+    return Array.from(set);
+  }, [tasks]);
+
+  const allIssueTypes = useMemo(() => {
+    const set = new Set<string>();
+    tasks.forEach((task) => set.add(task.issueType || "-"));
+    return Array.from(set).sort((a, b) => Number(a === "-") - Number(b === "-") || a.localeCompare(b));
+  }, [tasks]);
+
   const projectModules = useMemo(() => {
     const set = new Set<string>();
     tasks.forEach((task) => {
@@ -375,10 +1461,11 @@ export default function App() {
         projectAllWeeks ||
         projectWeekFilters.length === 0 ||
         task.weeks.some((week) => projectWeekFilters.includes(week));
-      if (matchWeek) set.add(task.module);
+      const matchSource = projectSourceFilters.length === 0 || projectSourceFilters.includes(task.source);
+      if (matchWeek && matchSource) set.add(task.module);
     });
     return Array.from(set).sort((a, b) => a.localeCompare(b));
-  }, [tasks, projectAllWeeks, projectWeekFilters]);
+  }, [tasks, projectAllWeeks, projectWeekFilters, projectSourceFilters]);
 
   const projectAssignees = useMemo(() => {
     const set = new Set<string>();
@@ -388,10 +1475,12 @@ export default function App() {
         projectWeekFilters.length === 0 ||
         task.weeks.some((week) => projectWeekFilters.includes(week));
       const matchModule = projectModuleFilters.length === 0 || projectModuleFilters.includes(task.module);
-      if (matchWeek && matchModule) set.add(task.assignee);
+      const matchSource = projectSourceFilters.length === 0 || projectSourceFilters.includes(task.source);
+      const matchIssueType = projectIssueTypeFilters.length === 0 || projectIssueTypeFilters.includes(task.issueType || "-");
+      if (matchWeek && matchModule && matchSource && matchIssueType) set.add(task.assignee);
     });
     return Array.from(set).sort((a, b) => a.localeCompare(b));
-  }, [tasks, projectAllWeeks, projectWeekFilters, projectModuleFilters]);
+  }, [tasks, projectAllWeeks, projectWeekFilters, projectModuleFilters, projectSourceFilters, projectIssueTypeFilters]);
 
   const projectWeekSummary = useMemo(() => {
     if (projectAllWeeks) return "All weeks";
@@ -406,6 +1495,11 @@ export default function App() {
     return ordered.join(", ");
   }, [projectModuleFilters, projectModules]);
 
+  const projectSourceSummary = useMemo(() => {
+    if (!projectSourceFilters.length) return "All sources";
+    return allSources.filter((source) => projectSourceFilters.includes(source)).join(", ");
+  }, [projectSourceFilters, allSources]);
+
   const projectRows = useMemo(() => {
     const taskStatusByWeek = new Map<string, Map<string, Status>>();
     tasks.forEach((task) => {
@@ -427,7 +1521,9 @@ export default function App() {
           selectedWeeks.length === 0 || task.weeks.some((week) => selectedWeeks.includes(week));
         const matchModule = projectModuleFilters.length === 0 || projectModuleFilters.includes(task.module);
         const matchAssignee = projectAssigneeFilter === "all" || task.assignee === projectAssigneeFilter;
-        return matchWeek && matchModule && matchAssignee;
+        const matchSource = projectSourceFilters.length === 0 || projectSourceFilters.includes(task.source);
+        const matchIssueType = projectIssueTypeFilters.length === 0 || projectIssueTypeFilters.includes(task.issueType || "-");
+        return matchWeek && matchModule && matchAssignee && matchSource && matchIssueType;
       })
       .map((task) => ({
         task,
@@ -474,8 +1570,11 @@ export default function App() {
         issueType: task.issueType || "-",
         taskName: task.name || "-",
         epicLink: task.epicLink || "-",
+        source: task.source,
         status: task.status,
+        rawStatus: task.rawStatus,
         storyPoint: task.storyPoint,
+        rawStoryPoint: task.rawStoryPoint,
         weeks: task.weeks.join(","),
         prevDoneStillAppear: row.warning,
         prevWeek: selectedWeeks.map((w) => previousWeek(w)).filter(Boolean).join(","),
@@ -485,13 +1584,19 @@ export default function App() {
         assigneeRowSpan: assigneeCount.get(assigneeKey) ?? 1
       };
     });
-  }, [tasks, projectAllWeeks, projectWeekFilters, allWeeks, projectModuleFilters, projectAssigneeFilter]);
+  }, [
+    tasks,
+    projectAllWeeks,
+    projectWeekFilters,
+    allWeeks,
+    projectModuleFilters,
+    projectAssigneeFilter,
+    projectSourceFilters,
+    projectIssueTypeFilters
+  ]);
 
   const assigneeRows = useMemo(() => {
-    const map = new Map<
-      string,
-      { assignee: string; point1: number; point2: number; point3: number; point4: number; point5: number; total: number }
-    >();
+    const map = new Map<string, { assignee: string; buckets: number[]; unestimated: number; total: number }>();
 
     tasks.forEach((task) => {
       const matched =
@@ -499,27 +1604,26 @@ export default function App() {
         assigneeWeekFilters.length === 0 ||
         task.weeks.some((week) => assigneeWeekFilters.includes(week));
       if (!matched) return;
+      if (assigneeIssueTypeFilters.length && !assigneeIssueTypeFilters.includes(task.issueType || "-")) return;
+      if (workloadMeasure === "remaining" && isClosedStatus(task.status)) return;
 
       const prev = map.get(task.assignee) ?? {
         assignee: task.assignee,
-        point1: 0,
-        point2: 0,
-        point3: 0,
-        point4: 0,
-        point5: 0,
+        buckets: estimationScale.buckets.map(() => 0),
+        unestimated: 0,
         total: 0
       };
-      if (task.storyPoint === 1) prev.point1 += 1;
-      if (task.storyPoint === 2) prev.point2 += 1;
-      if (task.storyPoint === 3) prev.point3 += 1;
-      if (task.storyPoint === 4) prev.point4 += 1;
-      if (task.storyPoint === 5) prev.point5 += 1;
-      prev.total += 1;
+      // Unestimated work has no points to sum, so it stays a task count under every measure.
+      const bucket = estimateBucketIndex(estimationScale, task.storyPoint, task.rawStoryPoint);
+      const value = workloadValue(task, workloadMeasure);
+      if (bucket === -1) prev.unestimated += 1;
+      else prev.buckets[bucket] += value;
+      prev.total += bucket === -1 && workloadMeasure !== "count" ? 0 : value;
       map.set(task.assignee, prev);
     });
 
     return Array.from(map.values()).sort((a, b) => b.total - a.total || a.assignee.localeCompare(b.assignee));
-  }, [tasks, assigneeAllWeeks, assigneeWeekFilters]);
+  }, [tasks, assigneeAllWeeks, assigneeWeekFilters, assigneeIssueTypeFilters, estimationScale, workloadMeasure]);
 
   const assigneeWeekSummary = useMemo(() => {
     if (assigneeAllWeeks) return "All weeks";
@@ -538,6 +1642,16 @@ export default function App() {
     }
   }, [allWeeks, managerWeek, currentWeekCode]);
 
+  useEffect(() => {
+    // Changing the default year re-keys bare labels, so drop week selections that no longer exist.
+    if ((compareWeekA && !allWeeks.includes(compareWeekA)) || (compareWeekB && !allWeeks.includes(compareWeekB))) {
+      setCompareWeekA(allWeeks.length >= 2 ? allWeeks[allWeeks.length - 2] : allWeeks[0] ?? "");
+      setCompareWeekB(allWeeks[allWeeks.length - 1] ?? "");
+    }
+    setProjectWeekFilters((prev) => (prev.every((week) => allWeeks.includes(week)) ? prev : prev.filter((week) => allWeeks.includes(week))));
+    setAssigneeWeekFilters((prev) => (prev.every((week) => allWeeks.includes(week)) ? prev : prev.filter((week) => allWeeks.includes(week))));
+  }, [allWeeks, compareWeekA, compareWeekB]);
+
   const compareRows = useMemo(() => {
     if (!compareWeekA || !compareWeekB) return [] as Array<{
       taskKey: string;
@@ -579,11 +1693,11 @@ export default function App() {
 
     return Array.from(taskMap.entries())
       .map(([taskKey, task]) => {
-        const statusA = task.statusByWeek.get(compareWeekA) ?? "-";
-        const statusB = task.statusByWeek.get(compareWeekB) ?? "-";
+        const statusA: Status | "-" = task.statusByWeek.get(compareWeekA) ?? "-";
+        const statusB: Status | "-" = task.statusByWeek.get(compareWeekB) ?? "-";
         const invalidDoneBoth = statusA === "done" && statusB === "done";
         const missingNextWeekLabelNeedUpdate =
-          statusA !== "-" && statusA !== "done" && statusB === "-";
+          statusA !== "-" && !isClosedStatus(statusA) && statusB === "-";
         const transition =
           statusA === "-" && statusB === "-"
             ? "No data in both weeks"
@@ -627,9 +1741,15 @@ export default function App() {
   const managerWeekCode = managerWeek || currentWeekCode;
   const managerPrevWeek = previousWeek(managerWeekCode);
 
+  const managerTasks = useMemo(
+    () =>
+      managerIssueTypeFilters.length ? tasks.filter((task) => managerIssueTypeFilters.includes(task.issueType || "-")) : tasks,
+    [tasks, managerIssueTypeFilters]
+  );
+
   const managerCurrentWeekTasks = useMemo(
-    () => tasks.filter((task) => task.weeks.includes(managerWeekCode)),
-    [tasks, managerWeekCode]
+    () => managerTasks.filter((task) => task.weeks.includes(managerWeekCode)),
+    [managerTasks, managerWeekCode]
   );
 
   const managerReminderRows = useMemo(() => {
@@ -638,7 +1758,7 @@ export default function App() {
       { taskId: string; taskName: string; assignee: string; module: string; statusByWeek: Map<string, Status> }
     >();
 
-    tasks.forEach((task) => {
+    managerTasks.forEach((task) => {
       const key = task.taskId || `${task.module}||${task.name}`;
       const prev =
         taskMap.get(key) ??
@@ -658,7 +1778,7 @@ export default function App() {
         const prevStatus = managerPrevWeek ? task.statusByWeek.get(managerPrevWeek) ?? "-" : "-";
         const currentStatus = task.statusByWeek.get(managerWeekCode) ?? "-";
         const doneBoth = prevStatus === "done" && currentStatus === "done";
-        const missingCurrent = prevStatus !== "-" && prevStatus !== "done" && currentStatus === "-";
+        const missingCurrent = prevStatus !== "-" && !isClosedStatus(prevStatus) && currentStatus === "-";
         return {
           taskKey,
           taskId: task.taskId,
@@ -671,7 +1791,7 @@ export default function App() {
       })
       .filter((row) => row.doneBoth || row.missingCurrent)
       .sort((a, b) => a.module.localeCompare(b.module) || a.assignee.localeCompare(b.assignee) || a.taskId.localeCompare(b.taskId));
-  }, [tasks, managerWeekCode, managerPrevWeek]);
+  }, [managerTasks, managerWeekCode, managerPrevWeek]);
 
   const managerInProgressMultiWeek = useMemo(() => {
     const map = new Map<string, { taskId: string; taskName: string; assignee: string; module: string; weeks: string }>();
@@ -690,17 +1810,55 @@ export default function App() {
   }, [managerCurrentWeekTasks]);
 
   const managerWorkloadRows = useMemo(() => {
-    const map = new Map<string, { assignee: string; light: number; medium: number; heavy: number; total: number }>();
+    const map = new Map<
+      string,
+      { assignee: string; light: number; medium: number; heavy: number; unestimated: number; total: number }
+    >();
     managerCurrentWeekTasks.forEach((task) => {
-      const prev = map.get(task.assignee) ?? { assignee: task.assignee, light: 0, medium: 0, heavy: 0, total: 0 };
-      if (task.storyPoint <= 2) prev.light += 1;
-      else if (task.storyPoint === 3) prev.medium += 1;
-      else prev.heavy += 1;
-      prev.total += 1;
+      if (workloadMeasure === "remaining" && isClosedStatus(task.status)) return;
+      const prev =
+        map.get(task.assignee) ?? { assignee: task.assignee, light: 0, medium: 0, heavy: 0, unestimated: 0, total: 0 };
+      const bucket = estimateBucketIndex(estimationScale, task.storyPoint, task.rawStoryPoint);
+      const value = workloadValue(task, workloadMeasure);
+      if (bucket === -1) prev.unestimated += 1;
+      else prev[estimationScale.buckets[bucket].weight] += value;
+      prev.total += bucket === -1 && workloadMeasure !== "count" ? 0 : value;
       map.set(task.assignee, prev);
     });
     return Array.from(map.values()).sort((a, b) => b.total - a.total || a.assignee.localeCompare(b.assignee));
-  }, [managerCurrentWeekTasks]);
+  }, [managerCurrentWeekTasks, estimationScale, workloadMeasure]);
+
+  // Planned load is everything labelled with the manager week, whatever its status, in the capacity's own unit.
+  const capacityRows = useMemo(() => {
+    const load = new Map<string, number>();
+    managerCurrentWeekTasks.forEach((task) => {
+      load.set(task.assignee, (load.get(task.assignee) ?? 0) + (capacityPlan.unit === "count" ? 1 : task.storyPoint ?? 0));
+    });
+    const assignees = new Set([...load.keys(), ...Object.keys(capacityPlan.capacities)]);
+    return Array.from(assignees)
+      .map((assignee) => {
+        const planned = Math.round((load.get(assignee) ?? 0) * 10) / 10;
+        const capacity = effectiveCapacity(capacityPlan, assignee, managerWeekCode);
+        // Zero capacity is a week of leave: any planned load there is over-allocation without bound.
+        const utilization = capacity === null ? null : capacity === 0 ? (planned > 0 ? Infinity : 0) : planned / capacity;
+        const state: AllocationState =
+          capacity === null
+            ? "unset"
+            : planned > capacity
+              ? "over"
+              : capacity === 0
+                ? "leave"
+                : utilization !== null && utilization < UNDER_ALLOCATION_RATIO
+                  ? "under"
+                  : "ok";
+        return { assignee, planned, capacity, utilization, state };
+      })
+      .sort((a, b) => (b.utilization ?? -1) - (a.utilization ?? -1) || a.assignee.localeCompare(b.assignee));
+  }, [managerCurrentWeekTasks, capacityPlan, managerWeekCode]);
+
+  const capacityByAssignee = useMemo(() => new Map(capacityRows.map((row) => [row.assignee, row])), [capacityRows]);
+
+  const capacityAssignees = useMemo(() => Array.from(new Set(tasks.map((task) => task.assignee))).sort((a, b) => a.localeCompare(b)), [tasks]);
 
   const compareGroupedRows = useMemo(() => {
     const moduleCount = new Map<string, number>();
@@ -733,7 +1891,7 @@ export default function App() {
   }, [compareRows]);
 
   const overviewStatus = useMemo(() => {
-    const summary = { open: 0, inprogress: 0, done: 0, other: 0 };
+    const summary = emptyStatusSummary();
     tasks.forEach((task) => {
       summary[task.status] += 1;
     });
@@ -741,46 +1899,98 @@ export default function App() {
   }, [tasks]);
 
   const projectPieData = useMemo(() => {
-    const summary = { open: 0, inprogress: 0, done: 0, other: 0 };
+    const summary = emptyStatusSummary();
     projectRows.forEach((row) => {
-      summary[row.status] += 1;
+      summary[row.status] += workloadValue(row, workloadMeasure);
     });
-    return [
-      { name: "open", value: summary.open, color: "#2563eb" },
-      { name: "in progress", value: summary.inprogress, color: "#f59e0b" },
-      { name: "done", value: summary.done, color: "#16a34a" },
-      { name: "other", value: summary.other, color: "#94a3b8" }
-    ];
-  }, [projectRows]);
+    return STATUS_CATEGORIES.map((category) => ({ name: category.label, value: summary[category.key], color: category.color }));
+  }, [projectRows, workloadMeasure]);
 
   const projectAssigneeChartData = useMemo(() => {
     const map = new Map<string, number>();
     projectRows.forEach((row) => {
-      map.set(row.assignee, (map.get(row.assignee) ?? 0) + 1);
+      map.set(row.assignee, (map.get(row.assignee) ?? 0) + workloadValue(row, workloadMeasure));
     });
     return Array.from(map.entries())
-      .map(([assignee, count]) => ({ assignee, count }))
-      .sort((a, b) => b.count - a.count || a.assignee.localeCompare(b.assignee))
+      .map(([assignee, value]) => ({ assignee, value: Math.round(value * 10) / 10 }))
+      .filter((row) => row.value > 0)
+      .sort((a, b) => b.value - a.value || a.assignee.localeCompare(b.assignee))
       .slice(0, 10);
-  }, [projectRows]);
+  }, [projectRows, workloadMeasure]);
+
+  // Project, assignee, source and issue type filters from section 1, shared by the week-based charts.
+  const matchesProjectFilters = useCallback(
+    (task: { module: string; assignee: string; source?: string; issueType: string }) =>
+      (projectModuleFilters.length === 0 || projectModuleFilters.includes(task.module)) &&
+      (projectAssigneeFilter === "all" || task.assignee === projectAssigneeFilter) &&
+      (projectSourceFilters.length === 0 || task.source === undefined || projectSourceFilters.includes(task.source)) &&
+      (projectIssueTypeFilters.length === 0 || projectIssueTypeFilters.includes(task.issueType || "-")),
+    [projectModuleFilters, projectAssigneeFilter, projectSourceFilters, projectIssueTypeFilters]
+  );
+
+  // A task keeps its last labelled status in later weeks, so finished work piles up in the done band
+  // and a widening in-progress band shows where work is getting stuck.
+  const cumulativeFlowData = useMemo(() => {
+    const selectedWeeks = projectAllWeeks || projectWeekFilters.length === 0 ? allWeeks : allWeeks.filter((week) => projectWeekFilters.includes(week));
+    const byTask = new Map<string, { storyPoint: number; statusByWeek: Map<string, Status> }>();
+    tasks.forEach((task) => {
+      if (!matchesProjectFilters(task)) return;
+
+      const taskKey = task.taskId || `${task.module}||${task.name}`;
+      const entry = byTask.get(taskKey) ?? { storyPoint: 0, statusByWeek: new Map<string, Status>() };
+      entry.storyPoint = Math.max(entry.storyPoint, task.storyPoint ?? 0);
+      task.weeks.forEach((week) => {
+        const current = entry.statusByWeek.get(week);
+        if (!current || statusIndex(task.status) > statusIndex(current)) entry.statusByWeek.set(week, task.status);
+      });
+      byTask.set(taskKey, entry);
+    });
+
+    const rows = selectedWeeks.map((week) => ({
+      week,
+      ...(Object.fromEntries(STATUS_CATEGORIES.map((category) => [category.key, 0])) as Record<Status, number>)
+    }));
+    const rowByWeek = new Map(rows.map((row) => [row.week, row]));
+    byTask.forEach((entry) => {
+      let status: Status | null = null;
+      allWeeks.forEach((week) => {
+        status = entry.statusByWeek.get(week) ?? status;
+        const row = rowByWeek.get(week);
+        if (row && status) row[status] += flowMeasure === "count" ? 1 : entry.storyPoint;
+      });
+    });
+    return rows;
+  }, [tasks, allWeeks, projectAllWeeks, projectWeekFilters, matchesProjectFilters, flowMeasure]);
+
+  // Done sits at the bottom of the stack, the way cumulative flow diagrams are usually read, and work gets less
+  // finished towards the top. Cancelled and unmapped statuses are off the workflow, so they go above it.
+  const cumulativeFlowBands = useMemo(
+    () =>
+      CUMULATIVE_FLOW_ORDER.flatMap((key) => STATUS_CATEGORIES.filter((category) => category.key === key)).filter((category) =>
+        cumulativeFlowData.some((row) => row[category.key] > 0)
+      ),
+    [cumulativeFlowData]
+  );
 
   const assigneePieData = useMemo(() => {
-    const summary = { C1: 0, C2: 0, C3: 0, C4: 0, C5: 0 };
+    const totals = estimationScale.buckets.map(() => 0);
+    let unestimated = 0;
     assigneeRows.forEach((row) => {
-      summary.C1 += row.point1;
-      summary.C2 += row.point2;
-      summary.C3 += row.point3;
-      summary.C4 += row.point4;
-      summary.C5 += row.point5;
+      row.buckets.forEach((count, index) => {
+        totals[index] += count;
+      });
+      unestimated += row.unestimated;
     });
     return [
-      { name: "C1", value: summary.C1, color: "#38bdf8" },
-      { name: "C2", value: summary.C2, color: "#818cf8" },
-      { name: "C3", value: summary.C3, color: "#f59e0b" },
-      { name: "C4", value: summary.C4, color: "#f97316" },
-      { name: "C5", value: summary.C5, color: "#ef4444" }
+      ...estimationScale.buckets.map((bucket, index) => ({
+        name: bucket.label,
+        value: totals[index],
+        color: BUCKET_COLORS[index % BUCKET_COLORS.length]
+      })),
+      // Unestimated tasks carry no points, so the slice only makes sense when counting tasks.
+      ...(workloadMeasure === "count" ? [{ name: "Unestimated", value: unestimated, color: UNESTIMATED_COLOR }] : [])
     ];
-  }, [assigneeRows]);
+  }, [assigneeRows, estimationScale, workloadMeasure]);
 
   const comparePieData = useMemo(
     () => [
@@ -791,47 +2001,120 @@ export default function App() {
     [compareSummary]
   );
 
+  const snapshotSeries = useMemo(
+    () =>
+      snapshots.map((snapshot) => ({
+        id: snapshot.id,
+        name: snapshot.name,
+        label: snapshotLabel(snapshot.name),
+        capturedAt: snapshot.capturedAt,
+        tasks: new Map(aggregateSnapshotTasks(prepareTasks(snapshot.tasks, taskSettings)).map((task) => [task.taskKey, task]))
+      })),
+    [snapshots, taskSettings]
+  );
+
+  const snapshotBase = snapshotSeries.find((item) => item.id === snapshotCompareA) ?? snapshotSeries[snapshotSeries.length - 2];
+  const snapshotCurrent = snapshotSeries.find((item) => item.id === snapshotCompareB) ?? snapshotSeries[snapshotSeries.length - 1];
+  const snapshotCompareReversed = Boolean(
+    snapshotBase?.capturedAt && snapshotCurrent?.capturedAt && snapshotBase.capturedAt.time > snapshotCurrent.capturedAt.time
+  );
+  const snapshotSeriesOutOfOrder = snapshots.some((snapshot, index) => index > 0 && snapshotOrder(snapshots[index - 1], snapshot) > 0);
+
+  const swapSnapshotCompare = () => {
+    if (!snapshotBase || !snapshotCurrent) return;
+    setSnapshotCompareA(snapshotCurrent.id);
+    setSnapshotCompareB(snapshotBase.id);
+  };
+
+  const snapshotTransitions = useMemo(
+    () =>
+      snapshotSeries.slice(1).map((current, index) => {
+        const previous = snapshotSeries[index];
+        let changed = 0;
+        let added = 0;
+        let missing = 0;
+        current.tasks.forEach((task, key) => {
+          const prev = previous.tasks.get(key);
+          if (!prev) added += 1;
+          else if (prev.status !== task.status) changed += 1;
+        });
+        previous.tasks.forEach((_, key) => {
+          if (!current.tasks.has(key)) missing += 1;
+        });
+        return { from: previous.label, to: current.label, changed, added, missing };
+      }),
+    [snapshotSeries]
+  );
+
+  const snapshotTimelineRows = useMemo(() => {
+    const keys = Array.from(new Set(snapshotSeries.flatMap((snapshot) => Array.from(snapshot.tasks.keys()))));
+    return keys
+      .map((taskKey) => {
+        const cells = snapshotSeries.map((snapshot) => snapshot.tasks.get(taskKey));
+        const latest = [...cells].reverse().find(Boolean) as SnapshotTask;
+        const statuses = cells.map((cell): Status | "-" => cell?.status ?? "-");
+        return {
+          taskKey,
+          taskId: latest.taskId,
+          taskUrl: latest.taskUrl,
+          taskName: latest.taskName,
+          module: latest.module,
+          assignee: latest.assignee,
+          statuses,
+          rawStatuses: cells.map((cell) => cell?.rawStatus ?? ""),
+          changed: statuses.some((status, index) => index > 0 && status !== statuses[index - 1])
+        };
+      })
+      .sort((a, b) => a.module.localeCompare(b.module) || a.taskId.localeCompare(b.taskId));
+  }, [snapshotSeries]);
+
+  const snapshotTimelineVisibleRows = useMemo(
+    () => (snapshotTimelineChangedOnly ? snapshotTimelineRows.filter((row) => row.changed) : snapshotTimelineRows),
+    [snapshotTimelineRows, snapshotTimelineChangedOnly]
+  );
+
   const snapshotComparisonRows = useMemo(() => {
-    const baseMap = new Map(aggregateSnapshotTasks(snapshotBaseTasks).map((task) => [task.taskKey, task]));
-    const currentMap = new Map(aggregateSnapshotTasks(snapshotCurrentTasks).map((task) => [task.taskKey, task]));
+    if (!snapshotBase || !snapshotCurrent || snapshotBase === snapshotCurrent) return [];
+    const baseMap = snapshotBase.tasks;
+    const currentMap = snapshotCurrent.tasks;
     const allKeys = Array.from(new Set([...baseMap.keys(), ...currentMap.keys()]));
 
     return allKeys
       .map((taskKey) => {
         const baseTask = baseMap.get(taskKey);
         const currentTask = currentMap.get(taskKey);
-        const statusA = baseTask?.status ?? "-";
-        const statusB = currentTask?.status ?? "-";
+        const statusA: Status | "-" = baseTask?.status ?? "-";
+        const statusB: Status | "-" = currentTask?.status ?? "-";
         const currentTaskRef = currentTask ?? baseTask;
-        const assigneeChanged = !!baseTask && !!currentTask && baseTask.assignee !== currentTask.assignee;
-        const moduleChanged = !!baseTask && !!currentTask && baseTask.module !== currentTask.module;
-        const pointChanged = !!baseTask && !!currentTask && baseTask.storyPoint !== currentTask.storyPoint;
+        const changes: SnapshotFieldChange[] =
+          baseTask && currentTask
+            ? SNAPSHOT_DIFF_FIELDS.flatMap(({ key, label, value }) => {
+                // Status compares categories so a renamed workflow state with the same meaning isn't a change.
+                const changed = key === "status" ? baseTask.status !== currentTask.status : value(baseTask) !== value(currentTask);
+                return changed ? [{ field: key, label, before: value(baseTask), after: value(currentTask) }] : [];
+              })
+            : [];
 
-        let category = "Repeated";
+        let category: SnapshotCategory = "Repeated";
         let needsAttention = false;
 
         if (baseTask && currentTask) {
           if (statusA !== statusB) {
             category = "Status changed";
-          } else if (statusA === "open" || statusA === "inprogress") {
+          } else if (isActiveStatus(statusA)) {
             category = "Still active";
             needsAttention = true;
-          } else if (statusA === "done") {
+          } else if (isClosedStatus(statusA)) {
             category = "Done in both";
           }
         } else if (!baseTask && currentTask) {
           category = "New task";
         } else if (baseTask && !currentTask) {
-          category = statusA === "done" ? "Missing after done" : "Missing in latest";
-          needsAttention = statusA !== "done";
+          category = isClosedStatus(statusA) ? "Missing after done" : "Missing in latest";
+          needsAttention = !isClosedStatus(statusA);
         }
 
-        const notes = [
-          snapshotNoteForStatuses(statusA, statusB),
-          assigneeChanged ? `Assignee changed: ${baseTask?.assignee} -> ${currentTask?.assignee}` : "",
-          moduleChanged ? `Project changed: ${baseTask?.module} -> ${currentTask?.module}` : "",
-          pointChanged ? `Story point changed: ${baseTask?.storyPoint} -> ${currentTask?.storyPoint}` : ""
-        ].filter(Boolean);
+        const notes = [snapshotNoteForStatuses(statusA, statusB)];
 
         return {
           taskKey,
@@ -842,10 +2125,13 @@ export default function App() {
           assignee: currentTask?.assignee || baseTask?.assignee || "-",
           statusA,
           statusB,
+          rawStatusA: baseTask?.rawStatus ?? "",
+          rawStatusB: currentTask?.rawStatus ?? "",
           weeksA: baseTask?.weeks.join(", ") || "-",
           weeksB: currentTask?.weeks.join(", ") || "-",
           category,
           needsAttention,
+          changes,
           notes: notes.join(" | ")
         };
       })
@@ -857,7 +2143,7 @@ export default function App() {
           a.assignee.localeCompare(b.assignee) ||
           a.taskId.localeCompare(b.taskId)
       );
-  }, [snapshotBaseTasks, snapshotCurrentTasks]);
+  }, [snapshotBase, snapshotCurrent]);
 
   const snapshotSummary = useMemo(() => {
     return {
@@ -880,15 +2166,510 @@ export default function App() {
     [snapshotSummary]
   );
 
+  const snapshotFieldCounts = useMemo(
+    () =>
+      SNAPSHOT_DIFF_FIELDS.map((field) => ({
+        key: field.key,
+        label: field.label,
+        count: snapshotComparisonRows.filter((row) => row.changes.some((change) => change.field === field.key)).length
+      })),
+    [snapshotComparisonRows]
+  );
+
+  const snapshotModules = useMemo(
+    () => Array.from(new Set(snapshotComparisonRows.map((row) => row.module))).sort((a, b) => a.localeCompare(b)),
+    [snapshotComparisonRows]
+  );
+
+  const snapshotAssignees = useMemo(
+    () =>
+      Array.from(
+        new Set(
+          snapshotComparisonRows
+            .filter((row) => snapshotModuleFilter === "all" || row.module === snapshotModuleFilter)
+            .map((row) => row.assignee)
+        )
+      ).sort((a, b) => a.localeCompare(b)),
+    [snapshotComparisonRows, snapshotModuleFilter]
+  );
+
   const snapshotFilteredRows = useMemo(() => {
+    const query = snapshotSearch.trim().toLowerCase();
     return snapshotComparisonRows.filter((row) => {
-      if (row.category === "Status changed") return snapshotShowChanged;
-      if (row.category === "Still active") return snapshotShowStillActive;
-      return false;
+      if (!snapshotCategoryFilters.includes(row.category)) return false;
+      if (snapshotModuleFilter !== "all" && row.module !== snapshotModuleFilter) return false;
+      if (snapshotAssigneeFilter !== "all" && row.assignee !== snapshotAssigneeFilter) return false;
+      if (snapshotAttentionOnly && !row.needsAttention) return false;
+      if (snapshotFieldFilter === "any" && !row.changes.length) return false;
+      if (snapshotFieldFilter !== "all" && snapshotFieldFilter !== "any" && !row.changes.some((change) => change.field === snapshotFieldFilter)) {
+        return false;
+      }
+      return !query || [row.taskId, row.taskName, row.notes].some((value) => value.toLowerCase().includes(query));
     });
-  }, [snapshotComparisonRows, snapshotShowChanged, snapshotShowStillActive]);
+  }, [
+    snapshotComparisonRows,
+    snapshotCategoryFilters,
+    snapshotModuleFilter,
+    snapshotAssigneeFilter,
+    snapshotAttentionOnly,
+    snapshotFieldFilter,
+    snapshotSearch
+  ]);
+
+  const snapshotCategoryCounts = useMemo(() => {
+    const counts = new Map<SnapshotCategory, number>();
+    snapshotComparisonRows.forEach((row) => counts.set(row.category, (counts.get(row.category) ?? 0) + 1));
+    return counts;
+  }, [snapshotComparisonRows]);
+
+  const iterationWeeks = useMemo(() => {
+    const start = iterationStart || allWeeks[allWeeks.length - 1];
+    const end = iterationEnd || start;
+    if (!start) return [];
+    const [from, to] = [weekIndex(start), weekIndex(end)].sort((a, b) => a - b);
+    return allWeeks.filter((week) => weekIndex(week) >= from && weekIndex(week) <= to);
+  }, [allWeeks, iterationStart, iterationEnd]);
+
+  // Scope is every labelled task in the iteration weeks; cancelled tasks leave the scope. Snapshots captured
+  // during the iteration become the data points when there are at least two, otherwise each iteration week is
+  // one point. Snapshots without a capture date cannot be placed, so they are kept.
+  const burnChart = useMemo(() => {
+    type BurnPoint = { label: string; scope: number; initialScope: number; addedScope: number; completed: number; remaining: number };
+    const inIteration = (weeks: string[]) => weeks.some((week) => iterationWeeks.includes(week));
+    const first = weekParts(iterationWeeks[0] ?? "");
+    const last = weekParts(iterationWeeks[iterationWeeks.length - 1] ?? "");
+    const rangeStart = first ? isoWeekMonday(first.year, first.week) : 0;
+    const rangeEnd = last ? isoWeekMonday(last.year, last.week) + 7 * 86400000 : 0;
+    const iterationSnapshots = snapshotSeries.filter(
+      (snapshot) => !snapshot.capturedAt || (snapshot.capturedAt.time >= rangeStart && snapshot.capturedAt.time < rangeEnd)
+    );
+    let points: BurnPoint[] = [];
+    const bySnapshots = iterationSnapshots.length >= 2;
+
+    if (!iterationWeeks.length) return { bySnapshots, snapshotCount: 0, points: [] as Array<BurnPoint & { ideal: number }> };
+
+    if (bySnapshots) {
+      let startKeys: Set<string> | null = null;
+      points = iterationSnapshots.map((snapshot) => {
+        const keys = new Set<string>();
+        let scope = 0;
+        let addedScope = 0;
+        let completed = 0;
+        snapshot.tasks.forEach((task, key) => {
+          if (!matchesProjectFilters(task) || !inIteration(task.weeks) || task.status === "cancelled") return;
+          const storyPoint = task.storyPoint ?? 0;
+          keys.add(key);
+          scope += storyPoint;
+          if (startKeys && !startKeys.has(key)) addedScope += storyPoint;
+          if (task.status === "done") completed += storyPoint;
+        });
+        startKeys ??= keys;
+        return { label: snapshot.label, scope, initialScope: scope - addedScope, addedScope, completed, remaining: scope - completed };
+      });
+    } else {
+      const byTask = new Map<string, { storyPoint: number; firstWeek: string; statusByWeek: Map<string, Status> }>();
+      tasks.forEach((task) => {
+        if (!matchesProjectFilters(task)) return;
+        const weeks = task.weeks.filter((week) => iterationWeeks.includes(week));
+        if (!weeks.length) return;
+        const taskKey = task.taskId || `${task.module}||${task.name}`;
+        const entry = byTask.get(taskKey) ?? { storyPoint: 0, firstWeek: weeks[0], statusByWeek: new Map<string, Status>() };
+        entry.storyPoint = Math.max(entry.storyPoint, task.storyPoint ?? 0);
+        weeks.forEach((week) => {
+          if (weekIndex(week) < weekIndex(entry.firstWeek)) entry.firstWeek = week;
+          const current = entry.statusByWeek.get(week);
+          if (!current || statusIndex(task.status) > statusIndex(current)) entry.statusByWeek.set(week, task.status);
+        });
+        byTask.set(taskKey, entry);
+      });
+
+      points = iterationWeeks.map((week) => {
+        let scope = 0;
+        let addedScope = 0;
+        let completed = 0;
+        byTask.forEach((entry) => {
+          if (weekIndex(entry.firstWeek) > weekIndex(week)) return;
+          const status = iterationWeeks
+            .filter((item) => weekIndex(item) <= weekIndex(week))
+            .reduce<Status | null>((prev, item) => entry.statusByWeek.get(item) ?? prev, null);
+          if (status === "cancelled") return;
+          scope += entry.storyPoint;
+          if (entry.firstWeek !== iterationWeeks[0]) addedScope += entry.storyPoint;
+          if (status === "done") completed += entry.storyPoint;
+        });
+        return { label: week, scope, initialScope: scope - addedScope, addedScope, completed, remaining: scope - completed };
+      });
+    }
 
-  const showToast = (message: string, type: "success" | "error") => {
+    const startScope = points[0]?.scope ?? 0;
+    return {
+      bySnapshots,
+      snapshotCount: iterationSnapshots.length,
+      points: points.map((point, index) => ({
+        ...point,
+        ideal: points.length > 1 ? Math.round(startScope * (1 - index / (points.length - 1)) * 10) / 10 : startScope
+      }))
+    };
+  }, [iterationWeeks, snapshotSeries, tasks, matchesProjectFilters]);
+
+  const burnSummary = burnChart.points[burnChart.points.length - 1];
+
+  // Flow metrics for every loaded done task. Lead time spans its first to last week label, inclusive. Cycle time
+  // is the whole weeks between the capture dates of the first snapshot showing it in progress or review and the
+  // first later snapshot showing it done; undated snapshots are left out.
+  const flowMetricTasks = useMemo(() => {
+    const byTask = new Map<string, { module: string; issueType: string; firstWeek: string; lastWeek: string }>();
+    tasks.forEach((task) => {
+      if (task.status !== "done" || !task.weeks.length) return;
+      const taskKey = task.taskId || `${task.module}||${task.name}`;
+      const prev = byTask.get(taskKey);
+      const weeks = prev ? [...task.weeks, prev.firstWeek, prev.lastWeek] : task.weeks;
+      byTask.set(taskKey, {
+        module: task.module,
+        issueType: task.issueType,
+        firstWeek: weeks.reduce((first, week) => (weekIndex(week) < weekIndex(first) ? week : first), weeks[0]),
+        lastWeek: latestWeek(weeks)
+      });
+    });
+
+    const datedSnapshots = snapshotSeries
+      .flatMap((snapshot) => (snapshot.capturedAt ? [{ time: snapshot.capturedAt.time, tasks: snapshot.tasks }] : []))
+      .sort((a, b) => a.time - b.time);
+
+    return Array.from(byTask.entries()).map(([taskKey, item]) => {
+      const statuses = datedSnapshots.map((snapshot) => snapshot.tasks.get(taskKey)?.status);
+      const start = statuses.findIndex((status) => status === "inprogress" || status === "review");
+      const end = start < 0 ? -1 : statuses.findIndex((status, index) => index > start && status === "done");
+      return {
+        taskKey,
+        module: item.module,
+        issueType: item.issueType,
+        leadTime: weeksBetween(item.firstWeek, item.lastWeek) + 1,
+        cycleTime: end < 0 ? null : Math.round((datedSnapshots[end].time - datedSnapshots[start].time) / (7 * 86400000))
+      };
+    });
+  }, [tasks, snapshotSeries]);
+
+  const flowMetricValues = useMemo(
+    () =>
+      flowMetricTasks
+        .map((task) => ({ ...task, value: task[flowMetric] }))
+        .filter((task): task is typeof task & { value: number } => task.value !== null),
+    [flowMetricTasks, flowMetric]
+  );
+
+  const flowMetricHistogram = useMemo(() => {
+    const counts = new Map<number, number>();
+    flowMetricValues.forEach((task) => counts.set(task.value, (counts.get(task.value) ?? 0) + 1));
+    const max = Math.max(0, ...counts.keys());
+    return Array.from({ length: max + 1 }, (_, weeks) => ({ weeks: String(weeks), count: counts.get(weeks) ?? 0 })).filter(
+      (row, index) => index > 0 || row.count > 0
+    );
+  }, [flowMetricValues]);
+
+  const flowMetricPercentiles = useMemo(() => {
+    const groups = new Map<string, number[]>();
+    flowMetricValues.forEach((task) => {
+      const group = task[flowMetricGroup] || "-";
+      groups.set(group, [...(groups.get(group) ?? []), task.value]);
+    });
+    const row = (group: string, values: number[]) => {
+      const sorted = [...values].sort((a, b) => a - b);
+      return { group, count: sorted.length, p50: percentile(sorted, 50), p85: percentile(sorted, 85), p95: percentile(sorted, 95) };
+    };
+    return [
+      row("All", flowMetricValues.map((task) => task.value)),
+      ...Array.from(groups.entries())
+        .map(([group, values]) => row(group, values))
+        .sort((a, b) => b.count - a.count || a.group.localeCompare(b.group))
+    ];
+  }, [flowMetricValues, flowMetricGroup]);
+
+  // A done task counts once, in its latest week label, as the week its story points were delivered.
+  const velocityRows = useMemo(() => {
+    const delivered = new Map<string, { week: string; storyPoint: number; module: string; assignee: string }>();
+    tasks.forEach((task) => {
+      if (task.status !== "done" || !task.weeks.length) return;
+      const taskKey = task.taskId || `${task.module}||${task.name}`;
+      const week = latestWeek(task.weeks);
+      const prev = delivered.get(taskKey);
+      delivered.set(taskKey, {
+        week: prev && weekIndex(prev.week) > weekIndex(week) ? prev.week : week,
+        storyPoint: Math.max(prev?.storyPoint ?? 0, task.storyPoint ?? 0),
+        module: task.module,
+        assignee: task.assignee
+      });
+    });
+
+    const groups = new Map<string, Map<string, number>>();
+    delivered.forEach((item) => {
+      const group = velocityGroup === "overall" ? "All tasks" : item[velocityGroup];
+      const byWeek = groups.get(group) ?? new Map<string, number>();
+      byWeek.set(item.week, (byWeek.get(item.week) ?? 0) + item.storyPoint);
+      groups.set(group, byWeek);
+    });
+
+    return Array.from(groups.entries())
+      .map(([group, byWeek]) => {
+        const values = allWeeks.map((week) => byWeek.get(week) ?? 0);
+        const stats = rollingStats(values, velocityWindow);
+        return {
+          group,
+          values,
+          stats,
+          total: values.reduce((sum, value) => sum + value, 0),
+          lastWeek: values[values.length - 1] ?? 0,
+          average: stats[stats.length - 1]?.mean ?? 0,
+          sd: stats[stats.length - 1]?.sd ?? 0
+        };
+      })
+      .sort((a, b) => b.total - a.total || a.group.localeCompare(b.group));
+  }, [tasks, allWeeks, velocityGroup, velocityWindow]);
+
+  const velocitySelected = velocityRows.find((row) => row.group === velocitySeries) ?? velocityRows[0];
+
+  const velocityChartData = useMemo(
+    () =>
+      velocitySelected
+        ? allWeeks.map((week, index) => {
+            const { mean, sd } = velocitySelected.stats[index];
+            return {
+              week,
+              completed: velocitySelected.values[index],
+              average: mean,
+              band: [Math.max(0, Math.round((mean - sd) * 10) / 10), Math.round((mean + sd) * 10) / 10]
+            };
+          })
+        : [],
+    [velocitySelected, allWeeks]
+  );
+
+  const regressionFromSnapshots = regressionSource === "snapshots" && snapshotSeries.length >= 2;
+
+  // Every step where a task's status moves backward between consecutive week labels or snapshots is one regression.
+  const regressionHistory = useMemo(() => {
+    type Entry = { taskId: string; taskUrl: string; name: string; module: string; assignee: string; steps: Array<{ label: string; status: Status }> };
+    const byTask = new Map<string, Entry>();
+    const entryFor = (taskKey: string, taskId: string, taskUrl: string, name: string, module: string, assignee: string) => {
+      const entry = byTask.get(taskKey) ?? { taskId, taskUrl, name, module, assignee, steps: [] };
+      // Later rows win so the task is credited to its latest owner.
+      entry.module = module;
+      entry.assignee = assignee;
+      byTask.set(taskKey, entry);
+      return entry;
+    };
+
+    if (regressionFromSnapshots) {
+      snapshotSeries.forEach((snapshot) =>
+        snapshot.tasks.forEach((task) => {
+          if (!matchesProjectFilters(task)) return;
+          entryFor(task.taskKey, task.taskId, task.taskUrl, task.taskName, task.module, task.assignee).steps.push({
+            label: snapshot.label,
+            status: task.status
+          });
+        })
+      );
+    } else {
+      const statusByTask = new Map<string, Map<string, Status>>();
+      tasks.forEach((task) => {
+        if (!matchesProjectFilters(task) || !task.weeks.length) return;
+        const taskKey = task.taskId || `${task.module}||${task.name}`;
+        entryFor(taskKey, task.taskId, task.taskUrl, task.name, task.module, task.assignee);
+        const statusByWeek = statusByTask.get(taskKey) ?? new Map<string, Status>();
+        task.weeks.forEach((week) => {
+          const current = statusByWeek.get(week);
+          if (!current || statusIndex(task.status) > statusIndex(current)) statusByWeek.set(week, task.status);
+        });
+        statusByTask.set(taskKey, statusByWeek);
+      });
+      statusByTask.forEach((statusByWeek, taskKey) => {
+        const entry = byTask.get(taskKey) as Entry;
+        allWeeks.forEach((week) => {
+          const status = statusByWeek.get(week);
+          if (status) entry.steps.push({ label: week, status });
+        });
+      });
+    }
+
+    return Array.from(byTask.values())
+      .filter((entry) => entry.steps.length >= 2)
+      .map((entry) => ({
+        ...entry,
+        regressions: entry.steps.slice(1).flatMap((step, index) =>
+          isRegression(entry.steps[index].status, step.status) ? [{ from: entry.steps[index], to: step }] : []
+        )
+      }));
+  }, [regressionFromSnapshots, snapshotSeries, tasks, allWeeks, matchesProjectFilters]);
+
+  const regressionTasks = useMemo(
+    () =>
+      regressionHistory
+        .filter((entry) => entry.regressions.length)
+        .sort((a, b) => b.regressions.length - a.regressions.length || a.taskId.localeCompare(b.taskId)),
+    [regressionHistory]
+  );
+
+  // The rate is regressed tasks over tasks seen at two or more points, the only ones that could regress.
+  const regressionSummary = useMemo(() => {
+    const regressions = regressionTasks.reduce((sum, entry) => sum + entry.regressions.length, 0);
+    const reopened = regressionTasks.reduce(
+      (sum, entry) => sum + entry.regressions.filter((item) => item.from.status === "done").length,
+      0
+    );
+    const rate = regressionHistory.length ? Math.round((regressionTasks.length / regressionHistory.length) * 1000) / 10 : 0;
+    return { tracked: regressionHistory.length, regressed: regressionTasks.length, regressions, reopened, rate };
+  }, [regressionHistory, regressionTasks]);
+
+  const regressionGroups = useMemo(() => {
+    const groupBy = (key: "assignee" | "module") => {
+      const groups = new Map<string, { group: string; tracked: number; regressed: number; regressions: number }>();
+      regressionHistory.forEach((entry) => {
+        const group = groups.get(entry[key]) ?? { group: entry[key], tracked: 0, regressed: 0, regressions: 0 };
+        group.tracked += 1;
+        group.regressed += entry.regressions.length ? 1 : 0;
+        group.regressions += entry.regressions.length;
+        groups.set(entry[key], group);
+      });
+      return Array.from(groups.values())
+        .filter((group) => group.regressions > 0)
+        .map((group) => ({ ...group, rate: Math.round((group.regressed / group.tracked) * 1000) / 10 }))
+        .sort((a, b) => b.regressions - a.regressions || a.group.localeCompare(b.group));
+    };
+    return { assignee: groupBy("assignee"), module: groupBy("module") };
+  }, [regressionHistory]);
+
+  // Progress is by story points when the epic has estimates and by task count otherwise; cancelled work is left out of both.
+  const epicRows = useMemo(() => {
+    const groups = new Map<string, SnapshotTask[]>();
+    aggregateSnapshotTasks(tasks.filter(matchesProjectFilters)).forEach((task) => {
+      groups.set(task.epicLink, [...(groups.get(task.epicLink) ?? []), task]);
+    });
+
+    return Array.from(groups.entries())
+      .map(([epic, epicTasks]) => {
+        const counted = epicTasks.filter((task) => task.status !== "cancelled");
+        const done = counted.filter((task) => task.status === "done");
+        const points = (items: SnapshotTask[]) => items.reduce((sum, task) => sum + (task.storyPoint ?? 0), 0);
+        const totalPoints = points(counted);
+        const weeks = Array.from(new Set(epicTasks.flatMap((task) => task.weeks))).sort((a, b) => weekIndex(a) - weekIndex(b));
+        return {
+          epic,
+          tasks: epicTasks,
+          total: epicTasks.length,
+          done: done.length,
+          inProgress: epicTasks.filter((task) => task.status === "inprogress" || task.status === "review").length,
+          totalPoints,
+          donePoints: points(done),
+          percent: Math.round(
+            (totalPoints ? points(done) / totalPoints : counted.length ? done.length / counted.length : 0) * 100
+          ),
+          modules: Array.from(new Set(epicTasks.map((task) => task.module))).sort(),
+          assignees: Array.from(new Set(epicTasks.map((task) => task.assignee))).sort(),
+          weeks: weeks.length ? (weeks.length > 1 ? `${weeks[0]} - ${weeks[weeks.length - 1]}` : weeks[0]) : "-"
+        };
+      })
+      .sort((a, b) => Number(a.epic === "-") - Number(b.epic === "-") || b.total - a.total || a.epic.localeCompare(b.epic));
+  }, [tasks, matchesProjectFilters]);
+
+  const selectedEpicRow = epicRows.find((row) => row.epic === selectedEpic);
+
+  // Each task counts once per project, and once in every week it is labelled with.
+  const issueTypeChartData = useMemo(() => {
+    const groups = new Map<string, Record<string, number>>();
+    aggregateSnapshotTasks(tasks.filter(matchesProjectFilters)).forEach((task) => {
+      const keys = issueTypeGroup === "module" ? [task.module] : task.weeks;
+      keys.forEach((key) => {
+        const row = groups.get(key) ?? {};
+        row[task.issueType] = (row[task.issueType] ?? 0) + 1;
+        groups.set(key, row);
+      });
+    });
+    const keys = Array.from(groups.keys()).sort((a, b) => (issueTypeGroup === "week" ? weekIndex(a) - weekIndex(b) : a.localeCompare(b)));
+    return keys.map((group): Record<string, string | number> => ({ group, ...groups.get(group) }));
+  }, [tasks, matchesProjectFilters, issueTypeGroup]);
+
+  const issueTypeBars = useMemo(
+    () => allIssueTypes.filter((issueType) => issueTypeChartData.some((row) => row[issueType])),
+    [allIssueTypes, issueTypeChartData]
+  );
+
+  // The community xlsx build writes values, links, widths and autofilters but not cell styles or frozen panes,
+  // so statuses are exported as text. Rows follow the active filter bar, matching what is on screen.
+  const exportSnapshotWorkbook = async () => {
+    if (!snapshotBase || !snapshotCurrent) return;
+    try {
+      const XLSX = await import("xlsx");
+      const workbook = XLSX.utils.book_new();
+      const statusText = (status: Status | "-", raw: string) => (status === "-" ? "-" : raw || statusLabel(status));
+
+      const summary: Array<Array<string | number>> = [
+        ["Snapshot comparison"],
+        ["From", snapshotBase.name],
+        ["To", snapshotCurrent.name],
+        ["Exported", new Date().toLocaleString()],
+        [],
+        ["Compared tasks", snapshotSummary.total],
+        ["Status changed", snapshotSummary.changed],
+        ["Still active in both", snapshotSummary.stillActive],
+        ["New tasks", snapshotSummary.newTasks],
+        ["Missing in latest", snapshotSummary.missing],
+        ["Need attention", snapshotSummary.attention],
+        [],
+        ["Category", "Tasks"],
+        ...SNAPSHOT_CATEGORIES.map((category) => [category, snapshotCategoryCounts.get(category) ?? 0]),
+        [],
+        ["Changed field", "Tasks"],
+        ...snapshotFieldCounts.map((field) => [field.label, field.count])
+      ];
+      const summarySheet = XLSX.utils.aoa_to_sheet(summary);
+      summarySheet["!cols"] = [{ wch: 24 }, { wch: 40 }];
+      XLSX.utils.book_append_sheet(workbook, summarySheet, "Summary");
+
+      const appendRows = (name: string, rows: typeof snapshotFilteredRows, withDetails: boolean) => {
+        const header = [
+          "Category",
+          "Project",
+          "Assignee",
+          "Task ID",
+          "Task",
+          snapshotBase.label,
+          snapshotCurrent.label,
+          ...(withDetails ? ["Weeks A", "Weeks B", "Changed fields"] : []),
+          "Notes"
+        ];
+        const body = rows.map((row) => [
+          row.category,
+          row.module,
+          row.assignee,
+          row.taskId,
+          row.taskName,
+          statusText(row.statusA, row.rawStatusA),
+          statusText(row.statusB, row.rawStatusB),
+          ...(withDetails
+            ? [row.weeksA, row.weeksB, row.changes.map((change) => `${change.label}: ${change.before} -> ${change.after}`).join("; ")]
+            : []),
+          row.notes
+        ]);
+        const sheet = XLSX.utils.aoa_to_sheet([header, ...body]);
+        rows.forEach((row, index) => {
+          const cell = sheet[XLSX.utils.encode_cell({ r: index + 1, c: 3 })];
+          if (cell && row.taskUrl) cell.l = { Target: row.taskUrl, Tooltip: `Open ${row.taskId}` };
+        });
+        sheet["!cols"] = header.map((label) => ({ wch: label === "Task" || label === "Notes" || label === "Changed fields" ? 48 : 16 }));
+        sheet["!autofilter"] = { ref: XLSX.utils.encode_range({ s: { r: 0, c: 0 }, e: { r: body.length, c: header.length - 1 } }) };
+        XLSX.utils.book_append_sheet(workbook, sheet, name);
+      };
+      appendRows("Attention", snapshotFilteredRows, false);
+      appendRows("Full Diff", snapshotFilteredRows, true);
+
+      XLSX.writeFile(workbook, `snapshot-compare-${snapshotBase.label}-vs-${snapshotCurrent.label}.xlsx`);
+      showToast("Workbook exported", "success");
+    } catch {
+      showToast("Unable to export workbook", "error");
+    }
+  };
+
+  const showToast = (message: string, type: ToastType) => {
     setToast({ message, type });
     window.setTimeout(() => setToast(null), 2200);
   };
@@ -903,8 +2684,8 @@ export default function App() {
               r.showAssignee ? r.assignee : "",
               r.taskId,
               r.taskName,
-              statusLabel(r.status),
-              r.storyPoint
+              r.rawStatus || statusLabel(r.status),
+              r.storyPoint ?? "-"
             ]
               .map(sanitizeCell)
               .join("\t")
@@ -916,8 +2697,8 @@ export default function App() {
             const moduleCell = r.showModule ? `<td rowspan="${r.moduleRowSpan}">${escapeHtml(r.module)}</td>` : "";
             const assigneeCell = r.showAssignee ? `<td rowspan="${r.assigneeRowSpan}">${escapeHtml(r.assignee)}</td>` : "";
             return `<tr>${moduleCell}${assigneeCell}<td>${escapeHtml(r.taskId)}</td><td>${escapeHtml(r.taskName)}</td><td>${escapeHtml(
-              statusLabel(r.status)
-            )}</td><td>${escapeHtml(r.storyPoint)}</td></tr>`;
+              r.rawStatus || statusLabel(r.status)
+            )}</td><td>${escapeHtml(r.storyPoint ?? "-")}</td></tr>`;
           })
           .join("");
         const htmlTable = `<table><tbody>${htmlRows}</tbody></table>`;
@@ -939,7 +2720,7 @@ export default function App() {
 
       if (kind === "assignee") {
         const plainText = assigneeRows
-          .map((r) => [r.assignee, r.point1, r.point2, r.point3, r.point4, r.point5].map(sanitizeCell).join("\t"))
+          .map((r) => [r.assignee, ...r.buckets, r.unestimated].map(sanitizeCell).join("\t"))
           .join("\n");
         await navigator.clipboard.writeText(plainText);
         showToast("Table copied: assignee view", "success");
@@ -948,7 +2729,138 @@ export default function App() {
     } catch {
       showToast("Copy failed. Please check clipboard permission.", "error");
     }
-  };
+  };
+
+  // Runs after the tab switch has rendered, and reopens the section if it was collapsed.
+  const scrollToSection = (id: string) => {
+    window.setTimeout(() => {
+      const section = document.getElementById(id);
+      if (!(section instanceof HTMLDetailsElement)) return;
+      section.open = true;
+      section.scrollIntoView({ behavior: "smooth", block: "start" });
+    }, 50);
+  };
+
+  const showInProjectView = (filters: { module?: string; assignee?: string; taskKey?: string }) => {
+    setActiveTab("main");
+    setProjectAllWeeks(true);
+    setProjectWeekFilters([]);
+    setProjectModuleFilters(filters.module ? [filters.module] : []);
+    setProjectAssigneeFilter(filters.assignee ?? "all");
+    setProjectSourceFilters([]);
+    setProjectIssueTypeFilters([]);
+    setJumpTaskKey(filters.taskKey ?? "");
+    scrollToSection("project-filter");
+  };
+
+  const showInSnapshotDiff = (taskKey: string, taskId: string) => {
+    setActiveTab("snapshot");
+    setSnapshotCategoryFilters([...SNAPSHOT_CATEGORIES]);
+    setSnapshotModuleFilter("all");
+    setSnapshotAssigneeFilter("all");
+    setSnapshotAttentionOnly(false);
+    setSnapshotFieldFilter("all");
+    setSnapshotSearch(taskId === "-" ? "" : taskId);
+    setJumpTaskKey(taskKey);
+    scrollToSection("snapshot-diff");
+  };
+
+  // Built only while the palette is open, so typing elsewhere never pays for indexing every task.
+  const paletteItems = useMemo<PaletteItem[]>(() => {
+    if (!paletteOpen) return [];
+    const items: PaletteItem[] = [
+      { id: "tab-main", group: "Actions", label: "Switch to Main Dashboard", keywords: "switch main dashboard tab", run: () => setActiveTab("main") },
+      { id: "tab-manager", group: "Actions", label: "Switch to Manager View", keywords: "switch manager view tab", run: () => setActiveTab("manager") },
+      { id: "tab-snapshot", group: "Actions", label: "Switch to Snapshot Compare", keywords: "switch snapshot compare tab", run: () => setActiveTab("snapshot") },
+      { id: "copy-project", group: "Actions", label: "Copy project CSV", keywords: "copy project csv table", run: () => copyCsv("project") },
+      { id: "copy-assignee", group: "Actions", label: "Copy assignee CSV", keywords: "copy assignee workload csv table", run: () => copyCsv("assignee") },
+      ...(Object.keys(WORKLOAD_MEASURE_LABELS) as WorkloadMeasure[]).map((measure) => ({
+        id: `measure-${measure}`,
+        group: "Actions",
+        label: `Measure workload by ${WORKLOAD_MEASURE_LABELS[measure].toLowerCase()}`,
+        keywords: `workload measure ${WORKLOAD_MEASURE_LABELS[measure]}`,
+        run: () => setWorkloadMeasure(measure)
+      })),
+      ...(snapshotBase && snapshotCurrent
+        ? [{ id: "export-snapshot", group: "Actions", label: "Export snapshot workbook", keywords: "export snapshot workbook excel", run: exportSnapshotWorkbook }]
+        : []),
+      ...allWeeks.map((week) => ({
+        id: `manager-week-${week}`,
+        group: "Actions",
+        label: `Set manager week to ${week}`,
+        keywords: `set manager week ${week} ${week.replace(/^\d{4}-/, "")}`,
+        run: () => {
+          setManagerWeek(week);
+          setActiveTab("manager");
+        }
+      }))
+    ];
+
+    const modules = new Set<string>();
+    const assignees = new Set<string>();
+    const epics = new Set<string>();
+    aggregateSnapshotTasks(tasks).forEach((task) => {
+      modules.add(task.module);
+      assignees.add(task.assignee);
+      if (task.epicLink !== "-") epics.add(task.epicLink);
+      items.push({
+        id: `task-${task.taskKey}`,
+        group: "Task",
+        label: `${task.taskId} ${task.taskName}`,
+        detail: `${task.assignee} / ${task.module}${task.epicLink !== "-" ? ` / ${task.epicLink}` : ""} / ${statusLabel(task.status)}`,
+        keywords: [task.taskId, task.taskName, task.assignee, task.module, task.epicLink].join(" "),
+        run: () => showInProjectView({ module: task.module, assignee: task.assignee, taskKey: task.taskKey })
+      });
+    });
+    assignees.forEach((assignee) =>
+      items.push({
+        id: `assignee-${assignee}`,
+        group: "Assignee",
+        label: `Filter project view by ${assignee}`,
+        keywords: assignee,
+        run: () => showInProjectView({ assignee })
+      })
+    );
+    modules.forEach((module) =>
+      items.push({
+        id: `module-${module}`,
+        group: "Project",
+        label: `Filter project view by ${module}`,
+        keywords: module,
+        run: () => showInProjectView({ module })
+      })
+    );
+    epics.forEach((epic) =>
+      items.push({
+        id: `epic-${epic}`,
+        group: "Epic",
+        label: `Open epic ${epic}`,
+        keywords: `epic ${epic}`,
+        run: () => {
+          setActiveTab("main");
+          setSelectedEpic(epic);
+          scrollToSection("epics");
+        }
+      })
+    );
+
+    // Snapshot tasks come from the pair being compared, so the jump always lands on a row in the diff.
+    const snapshotTasks = new Map<string, SnapshotTask>();
+    [snapshotBase, snapshotCurrent].forEach((snapshot) => snapshot?.tasks.forEach((task, taskKey) => snapshotTasks.set(taskKey, task)));
+    if (snapshotBase !== snapshotCurrent) {
+      snapshotTasks.forEach((task) =>
+        items.push({
+          id: `snapshot-${task.taskKey}`,
+          group: "Snapshot",
+          label: `${task.taskId} ${task.taskName}`,
+          detail: `${task.assignee} / ${task.module} / ${statusLabel(task.status)}`,
+          keywords: [task.taskId, task.taskName, task.assignee, task.module, task.epicLink].join(" "),
+          run: () => showInSnapshotDiff(task.taskKey, task.taskId)
+        })
+      );
+    }
+    return items;
+  }, [paletteOpen, tasks, allWeeks, snapshotBase, snapshotCurrent]);
 
   const totalTasks = tasks.length;
   const withWeek = tasks.filter((task) => task.weeks.length > 0).length;
@@ -982,10 +2894,11 @@ export default function App() {
           <CardHeader className="p-4">
             <CardDescription className="text-slate-200">Status Summary</CardDescription>
             <div className="mt-1 grid grid-cols-2 gap-2 text-sm">
-              <div>Open: <span className="font-semibold">{overviewStatus.open}</span></div>
-              <div>In Progress: <span className="font-semibold">{overviewStatus.inprogress}</span></div>
-              <div>Done: <span className="font-semibold">{overviewStatus.done}</span></div>
-              <div>Other: <span className="font-semibold">{overviewStatus.other}</span></div>
+              {STATUS_CATEGORIES.map((category) => (
+                <div key={`overview-${category.key}`} className="capitalize">
+                  {category.label}: <span className="font-semibold">{overviewStatus[category.key]}</span>
+                </div>
+              ))}
             </div>
           </CardHeader>
         </Card>
@@ -1003,22 +2916,162 @@ export default function App() {
             </span>
           </summary>
           <div className="mt-3 grid gap-2 sm:grid-cols-[220px,1fr] sm:items-center">
-            <Label htmlFor="file" className="text-xs text-muted-foreground">Excel/CSV File</Label>
+            <Label htmlFor="file" className="text-xs text-muted-foreground">Excel/CSV or Jira JSON File</Label>
             <Input
               id="file"
               type="file"
-              accept=".xlsx,.xls,.csv"
+              multiple={mergeUploads}
+              accept={TASK_FILE_ACCEPT}
               disabled={isParsing}
-              onChange={(e) => handleFileUpload(e.target.files?.[0] ?? null)}
+              onChange={(e) => {
+                handleFiles(e.target.files);
+                // Clear the input so the same file can be picked again after removing it.
+                if (mergeUploads) e.target.value = "";
+              }}
               className="h-9 text-sm"
             />
+            <span />
+            <label className="flex items-center gap-2 text-sm">
+              <input type="checkbox" checked={mergeUploads} onChange={(e) => setMergeUploads(e.target.checked)} />
+              Add uploads to the current dataset instead of replacing it
+            </label>
+            {loadedSources.length > 0 && (
+              <>
+                <span className="text-xs text-muted-foreground">Loaded files</span>
+                <div className="flex flex-wrap gap-2">
+                  {loadedSources.map((source) => (
+                    <span
+                      key={source.id}
+                      className="inline-flex items-center gap-2 rounded-full border bg-white px-3 py-1 text-xs shadow-sm"
+                    >
+                      <span className="font-medium">{source.fileName}</span>
+                      <span className="text-muted-foreground">{source.rowCount} rows</span>
+                      {!!dataset.conflictCounts.get(source.id) && (
+                        <span className="inline-flex items-center gap-1 text-amber-700">
+                          <AlertTriangle className="h-3 w-3" />
+                          {dataset.conflictCounts.get(source.id)} conflicts
+                        </span>
+                      )}
+                      <button
+                        type="button"
+                        className="text-muted-foreground hover:text-red-600"
+                        title={`Remove ${source.fileName}`}
+                        disabled={isParsing}
+                        onClick={() => removeLoadedSource(source.id)}
+                      >
+                        <X className="h-3 w-3" />
+                      </button>
+                    </span>
+                  ))}
+                </div>
+              </>
+            )}
+            <Label htmlFor="week-year" className="text-xs text-muted-foreground">Year for bare week labels (Wnn)</Label>
+            <Input
+              id="week-year"
+              type="number"
+              min={2000}
+              max={2100}
+              defaultValue={weekYear}
+              onChange={(e) => {
+                const year = Number(e.target.value);
+                if (Number.isInteger(year) && year >= 2000 && year <= 2100) setWeekYear(year);
+              }}
+              className="h-9 w-32 text-sm"
+            />
           </div>
+          <details className="mt-3 border-t pt-3">
+            <summary className="cursor-pointer list-none text-xs font-medium text-muted-foreground">
+              Jira JSON fields ({jiraFields.storyPoint || DEFAULT_JIRA_FIELDS.storyPoint}, {jiraFields.epicLink || DEFAULT_JIRA_FIELDS.epicLink})
+            </summary>
+            <div className="mt-2 grid gap-2 sm:grid-cols-[220px,1fr] sm:items-center">
+              <Label htmlFor="jira-story-point-field" className="text-xs text-muted-foreground">Story points field ID</Label>
+              <Input
+                id="jira-story-point-field"
+                value={jiraFields.storyPoint}
+                placeholder={DEFAULT_JIRA_FIELDS.storyPoint}
+                onChange={(e) => setJiraFields((prev) => ({ ...prev, storyPoint: e.target.value.trim() }))}
+                className="h-9 w-56 text-sm"
+              />
+              <Label htmlFor="jira-epic-field" className="text-xs text-muted-foreground">Epic link field ID</Label>
+              <Input
+                id="jira-epic-field"
+                value={jiraFields.epicLink}
+                placeholder={DEFAULT_JIRA_FIELDS.epicLink}
+                onChange={(e) => setJiraFields((prev) => ({ ...prev, epicLink: e.target.value.trim() }))}
+                className="h-9 w-56 text-sm"
+              />
+            </div>
+          </details>
+          <details className="mt-3 border-t pt-3">
+            <summary className="cursor-pointer list-none text-xs font-medium text-muted-foreground">
+              Status mapping ({statusMappingRows.length} raw statuses)
+            </summary>
+            <div className="mt-2">
+              <StatusMappingEditor
+                rows={statusMappingRows}
+                categories={STATUS_CATEGORIES}
+                onChange={(key, category) => setStatusMapping((prev) => ({ ...prev, [key]: category }))}
+                onReset={resetStatusMapping}
+              />
+            </div>
+          </details>
+          <details className="mt-3 border-t pt-3">
+            <summary className="cursor-pointer list-none text-xs font-medium text-muted-foreground">
+              Dataset library ({datasetLibrary.length} saved files)
+            </summary>
+            <div className="mt-2">
+              <DatasetLibrary
+                datasets={datasetLibrary}
+                activeIds={activeDatasetIds}
+                disabled={isParsing}
+                onOpen={openStoredDataset}
+                onDelete={removeStoredDataset}
+              />
+            </div>
+          </details>
         </details>
-        {isParsing && <p className="mt-3 text-sm text-primary">Processing data in Web Worker...</p>}
+        {isParsing && (
+          <div className="mt-3">
+            <ParseProgressBar progress={parseProgress} onCancel={cancelFileUpload} />
+          </div>
+        )}
         {error && <p className="mt-3 text-sm text-red-600">{error}</p>}
+        {importIssues.length > 0 && (
+          <details className="mt-3 rounded-lg border border-amber-200 bg-amber-50/60 p-3">
+            <summary className="flex cursor-pointer list-none flex-wrap items-center justify-between gap-2">
+              <span className="inline-flex items-center gap-2 text-sm font-medium text-amber-800">
+                <AlertTriangle className="h-4 w-4" />
+                Import issues ({importIssues.length})
+              </span>
+              <span className="flex flex-wrap gap-1">
+                {importIssueCounts.map((item) => (
+                  <span key={item.kind} className="rounded-full bg-white px-2 py-0.5 text-xs text-amber-800">
+                    {item.label}: {item.count}
+                  </span>
+                ))}
+              </span>
+            </summary>
+            <div className="mt-3 space-y-2">
+              <Button variant="outline" size="sm" onClick={downloadImportIssues}>Download CSV</Button>
+              <VirtualTable
+                rows={importIssues}
+                height={300}
+                getRowKey={(row, index) => `${row.source}-${row.row}-${row.kind}-${index}`}
+                columns={[
+                  { key: "row", label: "Row", render: (row) => (allSources.length > 1 ? `${row.source} / ${row.row}` : row.row) },
+                  { key: "taskId", label: "Key", render: (row) => row.taskId },
+                  { key: "kind", label: "Problem", render: (row) => IMPORT_ISSUE_LABELS[row.kind] },
+                  { key: "value", label: "Value", render: (row) => row.value || "-" },
+                  { key: "message", label: "Details", render: (row) => row.message }
+                ]}
+              />
+            </div>
+          </details>
+        )}
       </section>
 
-      <section className="mb-5 flex gap-2">
+      <section className="mb-5 flex flex-wrap items-center gap-2">
         <button
           type="button"
           onClick={() => setActiveTab("main")}
@@ -1040,16 +3093,47 @@ export default function App() {
         >
           Snapshot Compare
         </button>
+        <div className="ml-auto flex items-center gap-2">
+          <Button
+            variant="outline"
+            size="sm"
+            className="bg-white"
+            onClick={() => {
+              setJumpTaskKey("");
+              setPaletteOpen(true);
+            }}
+          >
+            Search <span className="ml-2 text-xs text-muted-foreground">Ctrl+K</span>
+          </Button>
+          <Label className="whitespace-nowrap text-sm text-muted-foreground">Workload measure</Label>
+          <Select value={workloadMeasure} onValueChange={(v) => setWorkloadMeasure(v as WorkloadMeasure)}>
+            <SelectTrigger className="w-44 bg-white">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {(Object.keys(WORKLOAD_MEASURE_LABELS) as WorkloadMeasure[]).map((measure) => (
+                <SelectItem key={`workload-${measure}`} value={measure}>
+                  {WORKLOAD_MEASURE_LABELS[measure]}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
       </section>
 
       {activeTab === "main" ? (
       <section className="space-y-5">
         <AccordionSection
+          id="project-filter"
           title="1. Project Filter by Week"
           description="Grouped by project -> assignee -> task (rowspan/colspan)"
         >
           <div className="mb-4 flex flex-col gap-3 sm:flex-row sm:items-end sm:justify-between">
-            <div className="grid w-full max-w-4xl grid-cols-1 gap-3 sm:grid-cols-3">
+            <div
+              className={`grid w-full max-w-5xl grid-cols-1 gap-3 ${
+                allSources.length > 1 ? "sm:grid-cols-3 lg:grid-cols-5" : "sm:grid-cols-2 lg:grid-cols-4"
+              }`}
+            >
               <div className="space-y-2">
                 <Label>Weeks (multi-select)</Label>
                 <details className="group relative">
@@ -1148,6 +3232,61 @@ export default function App() {
                   </SelectContent>
                 </Select>
               </div>
+              <div className="space-y-2">
+                <Label>Issue type (optional)</Label>
+                <MultiCheckFilter
+                  options={allIssueTypes}
+                  selected={projectIssueTypeFilters}
+                  allLabel="All issue types"
+                  formatOption={issueTypeLabel}
+                  onChange={(selected) => {
+                    setProjectIssueTypeFilters(selected);
+                    setProjectAssigneeFilter("all");
+                  }}
+                />
+              </div>
+              {allSources.length > 1 && (
+                <div className="space-y-2">
+                  <Label>Source sheet (optional)</Label>
+                  <details className="group relative">
+                    <summary className="flex h-10 cursor-pointer list-none items-center justify-between rounded-md border border-input bg-background px-3 py-2 text-sm">
+                      <span className="truncate">{projectSourceSummary}</span>
+                    </summary>
+                    <div className="absolute z-20 mt-2 w-full rounded-md border bg-card p-3 shadow-md">
+                      <label className="mb-2 flex items-center gap-2 text-sm">
+                        <input
+                          type="checkbox"
+                          checked={projectSourceFilters.length === 0}
+                          onChange={(e) => {
+                            if (e.target.checked) {
+                              setProjectSourceFilters([]);
+                              setProjectAssigneeFilter("all");
+                            }
+                          }}
+                        />
+                        All sources
+                      </label>
+                      <div className="max-h-44 space-y-1 overflow-auto border-t pt-2">
+                        {allSources.map((source) => (
+                          <label key={source} className="flex items-center gap-2 text-sm">
+                            <input
+                              type="checkbox"
+                              checked={projectSourceFilters.includes(source)}
+                              onChange={(e) => {
+                                setProjectSourceFilters((prev) =>
+                                  e.target.checked ? [...prev, source] : prev.filter((item) => item !== source)
+                                );
+                                setProjectAssigneeFilter("all");
+                              }}
+                            />
+                            {source}
+                          </label>
+                        ))}
+                      </div>
+                    </div>
+                  </details>
+                </div>
+              )}
             </div>
             <Button variant="outline" onClick={() => copyCsv("project")}>Copy CSV</Button>
           </div>
@@ -1170,9 +3309,9 @@ export default function App() {
               <ResponsiveContainer width="100%" height="100%">
                 <BarChart data={projectAssigneeChartData}>
                   <XAxis dataKey="assignee" tick={{ fontSize: 10 }} interval={0} angle={-25} textAnchor="end" height={70} />
-                  <YAxis allowDecimals={false} />
+                  <YAxis allowDecimals={workloadMeasure !== "count"} />
                   <Tooltip />
-                  <Bar dataKey="count" fill="#0ea5e9" name="Task count" radius={[4, 4, 0, 0]} />
+                  <Bar dataKey="value" fill="#0ea5e9" name={WORKLOAD_MEASURE_LABELS[workloadMeasure]} radius={[4, 4, 0, 0]} />
                 </BarChart>
               </ResponsiveContainer>
             </div>
@@ -1182,6 +3321,7 @@ export default function App() {
             rows={projectRows}
             height={560}
             getRowKey={(row, index) => `${row.module}-${row.assignee}-${row.taskKey}-${index}`}
+            highlightRow={jumpTaskKey ? (row) => row.taskKey === jumpTaskKey : undefined}
             columns={[
               {
                 key: "module",
@@ -1208,9 +3348,12 @@ export default function App() {
                   )
               },
               { key: "taskName", label: "Task Name", render: (row) => row.taskName },
-              { key: "status", label: "Status", render: (row) => <StatusBadge status={row.status} /> },
-              { key: "storyPoint", label: "Story Point", render: (row) => row.storyPoint },
+              { key: "status", label: "Status", render: (row) => <StatusBadge status={row.status} label={row.rawStatus} /> },
+              { key: "storyPoint", label: "Story Point", render: (row) => row.storyPoint ?? (row.rawStoryPoint || "-") },
               { key: "weeks", label: "Weeks", render: (row) => row.weeks },
+              ...(allSources.length > 1
+                ? [{ key: "source", label: "Source", render: (row: (typeof projectRows)[number]) => row.source }]
+                : []),
               {
                 key: "warning",
                 label: "Warning",
@@ -1233,8 +3376,11 @@ export default function App() {
 
         <AccordionSection
           title="2. Assignee Workload by Difficulty"
-          description="Select multiple weeks or all weeks to count tasks by difficulty per assignee"
+          description="Select multiple weeks or all weeks to count tasks per estimation bucket for each assignee"
         >
+          <div className="mb-4">
+            <EstimationScaleEditor scale={estimationScale} presets={ESTIMATION_SCALE_PRESETS} onChange={setEstimationScale} />
+          </div>
           <div className="mb-4 flex flex-col gap-3 sm:flex-row sm:items-end sm:justify-between">
             <div className="w-full max-w-xs space-y-2">
               <Label>Weeks (multi-select)</Label>
@@ -1276,6 +3422,16 @@ export default function App() {
                 </div>
               </details>
             </div>
+            <div className="w-full max-w-xs space-y-2">
+              <Label>Issue type</Label>
+              <MultiCheckFilter
+                options={allIssueTypes}
+                selected={assigneeIssueTypeFilters}
+                allLabel="All issue types"
+                formatOption={issueTypeLabel}
+                onChange={setAssigneeIssueTypeFilters}
+              />
+            </div>
             <Button variant="outline" onClick={() => copyCsv("assignee")}>Copy CSV</Button>
           </div>
 
@@ -1300,12 +3456,17 @@ export default function App() {
               getRowKey={(row) => row.assignee}
               columns={[
                 { key: "assignee", label: "Assignee", render: (row) => row.assignee },
-                { key: "point1", label: "C1", render: (row) => displayCount(row.point1) },
-                { key: "point2", label: "C2", render: (row) => displayCount(row.point2) },
-                { key: "point3", label: "C3", render: (row) => displayCount(row.point3) },
-                { key: "point4", label: "C4", render: (row) => displayCount(row.point4) },
-                { key: "point5", label: "C5", render: (row) => displayCount(row.point5) },
-                { key: "total", label: "Total", render: (row) => displayCount(row.total) }
+                ...estimationScale.buckets.map((bucket, index) => ({
+                  key: `bucket-${index}`,
+                  label: bucket.label,
+                  render: (row: (typeof assigneeRows)[number]) => displayCount(row.buckets[index])
+                })),
+                {
+                  key: "unestimated",
+                  label: workloadMeasure === "count" ? "Unestimated" : "Unestimated (tasks)",
+                  render: (row) => displayCount(row.unestimated)
+                },
+                { key: "total", label: workloadMeasure === "count" ? "Total" : "Total points", render: (row) => displayCount(row.total) }
               ]}
             />
           </div>
@@ -1419,6 +3580,464 @@ export default function App() {
 
           {!compareRows.length && <div className="py-5 text-center text-sm text-muted-foreground">No comparison data for selected weeks.</div>}
         </AccordionSection>
+
+        <AccordionSection
+          title="4. Cumulative Flow by Week"
+          description="Status bands stacked per week, using the week, project, assignee and source filters from section 1"
+        >
+          <div className="mb-4 w-full max-w-xs space-y-2">
+            <Label>Measure</Label>
+            <Select value={flowMeasure} onValueChange={(v) => setFlowMeasure(v as "count" | "storyPoint")}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="count">Task count</SelectItem>
+                <SelectItem value="storyPoint">Story points</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+          {cumulativeFlowData.length ? (
+            <div className="h-80 rounded-xl border border-white/70 bg-white p-2 shadow-sm">
+              <ResponsiveContainer width="100%" height="100%">
+                <AreaChart data={cumulativeFlowData}>
+                  <CartesianGrid strokeDasharray="3 3" stroke="#e2e8f0" />
+                  <XAxis dataKey="week" tick={{ fontSize: 11 }} />
+                  <YAxis allowDecimals={flowMeasure === "storyPoint"} />
+                  <Tooltip />
+                  <Legend />
+                  {cumulativeFlowBands.map((category) => (
+                    <Area
+                      key={`flow-${category.key}`}
+                      type="monotone"
+                      dataKey={category.key}
+                      name={category.label}
+                      stackId="flow"
+                      stroke={category.color}
+                      fill={category.color}
+                      fillOpacity={0.6}
+                    />
+                  ))}
+                </AreaChart>
+              </ResponsiveContainer>
+            </div>
+          ) : (
+            <div className="py-5 text-center text-sm text-muted-foreground">No week labels to chart.</div>
+          )}
+        </AccordionSection>
+
+        <AccordionSection
+          title="5. Burndown / Burnup by Story Points"
+          description="Treat one week or a range of weeks as an iteration and track completed versus planned story points"
+        >
+          <div className="mb-4 grid w-full max-w-xl grid-cols-1 gap-3 sm:grid-cols-2">
+            <div className="space-y-2">
+              <Label>Iteration from</Label>
+              <Select value={iterationWeeks[0] ?? ""} onValueChange={setIterationStart}>
+                <SelectTrigger>
+                  <SelectValue placeholder="Select week" />
+                </SelectTrigger>
+                <SelectContent>
+                  {allWeeks.map((week) => (
+                    <SelectItem key={`iteration-start-${week}`} value={week}>
+                      {week}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label>Iteration to</Label>
+              <Select value={iterationWeeks[iterationWeeks.length - 1] ?? ""} onValueChange={setIterationEnd}>
+                <SelectTrigger>
+                  <SelectValue placeholder="Select week" />
+                </SelectTrigger>
+                <SelectContent>
+                  {allWeeks.map((week) => (
+                    <SelectItem key={`iteration-end-${week}`} value={week}>
+                      {week}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          <div className="mb-4 text-xs text-muted-foreground">
+            {burnChart.bySnapshots
+              ? `Data points: the ${burnChart.snapshotCount} snapshots captured during the iteration, in series order.`
+              : "Data points: one per iteration week. Load snapshots in the Snapshot Compare tab for day-by-day or week-by-week points."}
+          </div>
+
+          {burnSummary ? (
+            <>
+              <div className="mb-4 grid gap-3 sm:grid-cols-2 xl:grid-cols-5">
+                {[
+                  { label: "Scope", value: burnSummary.scope },
+                  { label: "Completed", value: burnSummary.completed },
+                  { label: "Remaining", value: burnSummary.remaining },
+                  { label: "Added after start", value: burnSummary.addedScope },
+                  {
+                    label: "Complete",
+                    value: burnSummary.scope ? `${Math.round((burnSummary.completed / burnSummary.scope) * 100)}%` : "-"
+                  }
+                ].map((item) => (
+                  <div key={`burn-${item.label}`} className="rounded-xl border border-white/70 bg-white px-4 py-3 shadow-sm">
+                    <div className="text-xs text-muted-foreground">{item.label}</div>
+                    <div className="text-xl font-semibold">{item.value}</div>
+                  </div>
+                ))}
+              </div>
+              <div className="grid gap-4 lg:grid-cols-2">
+                <div className="h-72 rounded-xl border border-white/70 bg-white p-2 shadow-sm">
+                  <div className="px-2 text-sm font-medium">Burnup</div>
+                  <ResponsiveContainer width="100%" height="90%">
+                    <ComposedChart data={burnChart.points}>
+                      <CartesianGrid strokeDasharray="3 3" stroke="#e2e8f0" />
+                      <XAxis dataKey="label" tick={{ fontSize: 11 }} />
+                      <YAxis />
+                      <Tooltip />
+                      <Legend />
+                      <Area type="monotone" dataKey="initialScope" name="Initial scope" stackId="scope" stroke="#94a3b8" fill="#cbd5e1" />
+                      <Area type="monotone" dataKey="addedScope" name="Added scope" stackId="scope" stroke="#f59e0b" fill="#fde68a" />
+                      <Line type="monotone" dataKey="completed" name="Completed" stroke="#16a34a" strokeWidth={2} />
+                    </ComposedChart>
+                  </ResponsiveContainer>
+                </div>
+                <div className="h-72 rounded-xl border border-white/70 bg-white p-2 shadow-sm">
+                  <div className="px-2 text-sm font-medium">Burndown</div>
+                  <ResponsiveContainer width="100%" height="90%">
+                    <LineChart data={burnChart.points}>
+                      <CartesianGrid strokeDasharray="3 3" stroke="#e2e8f0" />
+                      <XAxis dataKey="label" tick={{ fontSize: 11 }} />
+                      <YAxis />
+                      <Tooltip />
+                      <Legend />
+                      <Line type="monotone" dataKey="remaining" name="Remaining" stroke="#2563eb" strokeWidth={2} />
+                      <Line type="linear" dataKey="ideal" name="Ideal" stroke="#94a3b8" strokeDasharray="5 5" dot={false} />
+                    </LineChart>
+                  </ResponsiveContainer>
+                </div>
+              </div>
+            </>
+          ) : (
+            <div className="py-5 text-center text-sm text-muted-foreground">No labelled tasks in the selected iteration.</div>
+          )}
+        </AccordionSection>
+
+        <AccordionSection
+          title="6. Velocity"
+          description="Completed story points per week with a rolling average and a one standard deviation band"
+        >
+          <div className="mb-4 grid w-full max-w-3xl grid-cols-1 gap-3 sm:grid-cols-3">
+            <div className="space-y-2">
+              <Label>Group by</Label>
+              <Select
+                value={velocityGroup}
+                onValueChange={(v) => {
+                  setVelocityGroup(v as "overall" | "module" | "assignee");
+                  setVelocitySeries("");
+                }}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="overall">Overall</SelectItem>
+                  <SelectItem value="module">Project</SelectItem>
+                  <SelectItem value="assignee">Assignee</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            {velocityGroup !== "overall" && (
+              <div className="space-y-2">
+                <Label>Chart</Label>
+                <Select value={velocitySelected?.group ?? ""} onValueChange={setVelocitySeries}>
+                  <SelectTrigger>
+                    <SelectValue placeholder="Select" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {velocityRows.map((row) => (
+                      <SelectItem key={`velocity-series-${row.group}`} value={row.group}>
+                        {row.group}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            )}
+            <div className="space-y-2">
+              <Label>Rolling window</Label>
+              <Select value={String(velocityWindow)} onValueChange={(v) => setVelocityWindow(Number(v))}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {[2, 3, 4, 6, 8].map((size) => (
+                    <SelectItem key={`velocity-window-${size}`} value={String(size)}>
+                      {size} weeks
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          {velocitySelected ? (
+            <>
+              <div className="mb-4 h-72 rounded-xl border border-white/70 bg-white p-2 shadow-sm">
+                <ResponsiveContainer width="100%" height="100%">
+                  <ComposedChart data={velocityChartData}>
+                    <CartesianGrid strokeDasharray="3 3" stroke="#e2e8f0" />
+                    <XAxis dataKey="week" tick={{ fontSize: 11 }} />
+                    <YAxis />
+                    <Tooltip />
+                    <Legend />
+                    <Area type="monotone" dataKey="band" name="Average ± 1 SD" stroke="none" fill="#bfdbfe" fillOpacity={0.6} />
+                    <Bar dataKey="completed" name="Completed points" fill="#16a34a" radius={[4, 4, 0, 0]} />
+                    <Line type="monotone" dataKey="average" name={`${velocityWindow}-week average`} stroke="#2563eb" strokeWidth={2} />
+                  </ComposedChart>
+                </ResponsiveContainer>
+              </div>
+              <VirtualTable
+                rows={velocityRows}
+                height={Math.min(360, 48 + velocityRows.length * 40)}
+                getRowKey={(row) => `velocity-${row.group}`}
+                columns={[
+                  { key: "group", label: velocityGroup === "assignee" ? "Assignee" : velocityGroup === "module" ? "Project" : "Scope", render: (row) => row.group },
+                  { key: "lastWeek", label: "Last week", render: (row) => row.lastWeek },
+                  { key: "average", label: `${velocityWindow}-week average`, render: (row) => row.average },
+                  { key: "sd", label: "Std dev", render: (row) => row.sd },
+                  {
+                    key: "range",
+                    label: "Commitment range",
+                    render: (row) => `${Math.max(0, Math.round((row.average - row.sd) * 10) / 10)} - ${Math.round((row.average + row.sd) * 10) / 10}`
+                  },
+                  { key: "total", label: "Total completed", render: (row) => row.total }
+                ]}
+              />
+            </>
+          ) : (
+            <div className="py-5 text-center text-sm text-muted-foreground">No done tasks with week labels yet.</div>
+          )}
+        </AccordionSection>
+
+        <AccordionSection
+          title="7. Regressions"
+          description="Tasks whose status moved backward, such as done to open or in progress to open, between weeks or snapshots"
+        >
+          <div className="mb-4 grid w-full max-w-3xl grid-cols-1 gap-3 sm:grid-cols-3">
+            <div className="space-y-2">
+              <Label>Track across</Label>
+              <Select value={regressionFromSnapshots ? "snapshots" : "weeks"} onValueChange={(v) => setRegressionSource(v as "weeks" | "snapshots")}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="weeks">Week labels</SelectItem>
+                  <SelectItem value="snapshots" disabled={snapshotSeries.length < 2}>
+                    Snapshot series
+                  </SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          <div className="mb-4 grid gap-3 sm:grid-cols-2 xl:grid-cols-5">
+            {[
+              { label: "Tracked tasks", value: regressionSummary.tracked },
+              { label: "Regressed tasks", value: regressionSummary.regressed },
+              { label: "Regressions", value: regressionSummary.regressions },
+              { label: "Reopened after done", value: regressionSummary.reopened },
+              { label: "Regression rate", value: regressionSummary.tracked ? `${regressionSummary.rate}%` : "-" }
+            ].map((item) => (
+              <div key={`regression-${item.label}`} className="rounded-xl border border-white/70 bg-white px-4 py-3 shadow-sm">
+                <div className="text-xs text-muted-foreground">{item.label}</div>
+                <div className="text-xl font-semibold">{item.value}</div>
+              </div>
+            ))}
+          </div>
+
+          {regressionTasks.length ? (
+            <>
+              <div className="mb-4 grid gap-4 lg:grid-cols-2">
+                {(["assignee", "module"] as const).map((key) => (
+                  <VirtualTable
+                    key={`regression-group-${key}`}
+                    rows={regressionGroups[key]}
+                    height={Math.min(280, 48 + regressionGroups[key].length * 40)}
+                    getRowKey={(row) => `regression-${key}-${row.group}`}
+                    columns={[
+                      { key: "group", label: key === "assignee" ? "Assignee" : "Project", render: (row) => row.group },
+                      { key: "regressions", label: "Regressions", render: (row) => row.regressions },
+                      { key: "regressed", label: "Tasks", render: (row) => `${row.regressed} / ${row.tracked}` },
+                      { key: "rate", label: "Rate", render: (row) => `${row.rate}%` }
+                    ]}
+                  />
+                ))}
+              </div>
+              <VirtualTable
+                rows={regressionTasks}
+                height={Math.min(460, 48 + regressionTasks.length * 44)}
+                getRowKey={(row) => `regression-task-${row.taskId}-${row.name}`}
+                columns={[
+                  {
+                    key: "taskId",
+                    label: "Task ID",
+                    render: (row) =>
+                      row.taskUrl ? (
+                        <a href={row.taskUrl} target="_blank" rel="noreferrer" className="text-primary underline underline-offset-2">
+                          {row.taskId}
+                        </a>
+                      ) : (
+                        row.taskId
+                      )
+                  },
+                  { key: "name", label: "Task", render: (row) => row.name },
+                  { key: "assignee", label: "Assignee", render: (row) => row.assignee },
+                  { key: "module", label: "Project", render: (row) => row.module },
+                  { key: "count", label: "Regressions", render: (row) => row.regressions.length },
+                  {
+                    key: "steps",
+                    label: "Moves",
+                    render: (row) =>
+                      row.regressions
+                        .map((item) => `${item.from.label} ${statusLabel(item.from.status)} -> ${item.to.label} ${statusLabel(item.to.status)}`)
+                        .join("; ")
+                  }
+                ]}
+              />
+            </>
+          ) : (
+            <div className="py-5 text-center text-sm text-muted-foreground">
+              {regressionSummary.tracked ? "No status went backward." : "Regressions need tasks seen in at least two weeks or snapshots."}
+            </div>
+          )}
+        </AccordionSection>
+
+        <AccordionSection id="epics" title="8. Epics" description="Progress per epic link; click an epic to see its tasks">
+          <VirtualTable
+            rows={epicRows}
+            height={Math.min(420, 48 + epicRows.length * 52)}
+            getRowKey={(row) => `epic-${row.epic}`}
+            emptyText="No tasks to group"
+            columns={[
+              {
+                key: "epic",
+                label: "Epic",
+                render: (row) => (
+                  <button
+                    type="button"
+                    className={`text-left font-medium underline-offset-2 hover:underline ${row.epic === selectedEpic ? "text-primary" : ""}`}
+                    onClick={() => setSelectedEpic(row.epic === selectedEpic ? "" : row.epic)}
+                  >
+                    {row.epic === "-" ? "No epic" : row.epic}
+                  </button>
+                )
+              },
+              {
+                key: "progress",
+                label: "Complete",
+                render: (row) => (
+                  <div className="min-w-[120px] space-y-1">
+                    <div className="h-2 overflow-hidden rounded-full bg-slate-200">
+                      <div className="h-full bg-emerald-500" style={{ width: `${row.percent}%` }} />
+                    </div>
+                    <div className="text-xs text-muted-foreground">{row.percent}%</div>
+                  </div>
+                )
+              },
+              { key: "total", label: "Tasks", render: (row) => row.total },
+              { key: "done", label: "Done", render: (row) => row.done },
+              { key: "inProgress", label: "In progress", render: (row) => row.inProgress },
+              { key: "points", label: "Story points", render: (row) => `${row.donePoints} / ${row.totalPoints}` },
+              { key: "modules", label: "Projects", render: (row) => row.modules.join(", ") },
+              { key: "assignees", label: "Assignees", render: (row) => row.assignees.join(", ") },
+              { key: "weeks", label: "Weeks", render: (row) => row.weeks }
+            ]}
+          />
+
+          {selectedEpicRow && (
+            <div className="mt-4 space-y-2">
+              <div className="flex items-center justify-between gap-2">
+                <div className="text-sm font-medium">
+                  {selectedEpicRow.epic === "-" ? "Tasks without an epic" : selectedEpicRow.epic} ({selectedEpicRow.total} tasks)
+                </div>
+                <Button variant="ghost" size="sm" onClick={() => setSelectedEpic("")}>
+                  <X className="h-3 w-3" />
+                </Button>
+              </div>
+              <VirtualTable
+                rows={selectedEpicRow.tasks}
+                height={Math.min(460, 48 + selectedEpicRow.tasks.length * 44)}
+                getRowKey={(row) => `epic-task-${row.taskKey}`}
+                columns={[
+                  {
+                    key: "taskId",
+                    label: "Task ID",
+                    render: (row) =>
+                      row.taskUrl ? (
+                        <a href={row.taskUrl} target="_blank" rel="noreferrer" className="text-primary underline underline-offset-2">
+                          {row.taskId}
+                        </a>
+                      ) : (
+                        row.taskId
+                      )
+                  },
+                  { key: "taskName", label: "Task", render: (row) => row.taskName },
+                  { key: "issueType", label: "Issue Type", render: (row) => row.issueType },
+                  { key: "assignee", label: "Assignee", render: (row) => row.assignee },
+                  { key: "module", label: "Project", render: (row) => row.module },
+                  { key: "status", label: "Status", render: (row) => <StatusBadge status={row.status} label={row.rawStatus} /> },
+                  { key: "storyPoint", label: "SP", render: (row) => row.storyPoint ?? "-" },
+                  { key: "weeks", label: "Weeks", render: (row) => row.weeks.join(", ") || "-" }
+                ]}
+              />
+            </div>
+          )}
+        </AccordionSection>
+
+        <AccordionSection
+          title="9. Issue Types"
+          description="How much of each project or week went to bugs, stories, spikes and other work; follows the filters in section 1"
+        >
+          <div className="mb-4 w-full max-w-xs space-y-2">
+            <Label>Group by</Label>
+            <Select value={issueTypeGroup} onValueChange={(v) => setIssueTypeGroup(v as "module" | "week")}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="module">Project</SelectItem>
+                <SelectItem value="week">Week</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+          {issueTypeChartData.length ? (
+            <div className="h-72 rounded-xl border border-white/70 bg-white p-2 shadow-sm">
+              <ResponsiveContainer width="100%" height="100%">
+                <BarChart data={issueTypeChartData}>
+                  <CartesianGrid strokeDasharray="3 3" stroke="#e2e8f0" />
+                  <XAxis dataKey="group" tick={{ fontSize: 11 }} />
+                  <YAxis allowDecimals={false} />
+                  <Tooltip />
+                  <Legend />
+                  {issueTypeBars.map((issueType, index) => (
+                    <Bar
+                      key={`issue-type-${issueType}`}
+                      dataKey={issueType}
+                      name={issueTypeLabel(issueType)}
+                      stackId="issueType"
+                      fill={BUCKET_COLORS[index % BUCKET_COLORS.length]}
+                    />
+                  ))}
+                </BarChart>
+              </ResponsiveContainer>
+            </div>
+          ) : (
+            <div className="py-5 text-center text-sm text-muted-foreground">No tasks match the current filters.</div>
+          )}
+        </AccordionSection>
       </section>
       ) : activeTab === "manager" ? (
       <section className="space-y-5">
@@ -1427,6 +4046,16 @@ export default function App() {
             <div className="text-sm font-medium">Manager week scope</div>
             <div className="text-xs text-muted-foreground">All manager metrics below follow this selected week.</div>
           </div>
+          <div className="w-full max-w-xs space-y-1">
+            <Label>Issue type</Label>
+            <MultiCheckFilter
+              options={allIssueTypes}
+              selected={managerIssueTypeFilters}
+              allLabel="All issue types"
+              formatOption={issueTypeLabel}
+              onChange={setManagerIssueTypeFilters}
+            />
+          </div>
           <div className="w-full max-w-xs space-y-1">
             <Label>Week</Label>
             <Select value={managerWeekCode || "__none__"} onValueChange={(v) => setManagerWeek(v === "__none__" ? "" : v)}>
@@ -1496,29 +4125,83 @@ export default function App() {
           </div>
         </AccordionSection>
 
+        <AccordionSection
+          title="Capacity vs Planned Load"
+          description={`Planned ${capacityPlan.unit === "count" ? "tasks" : "story points"} in ${managerWeekCode || "N/A"} against each person's capacity for that week`}
+        >
+          <details className="mb-4 rounded-xl border border-white/70 bg-white/70 p-3">
+            <summary className="cursor-pointer text-sm font-medium">Edit capacities</summary>
+            <div className="mt-3">
+              <CapacityEditor plan={capacityPlan} assignees={capacityAssignees} week={managerWeekCode} onChange={setCapacityPlan} />
+            </div>
+          </details>
+          {capacityRows.some((row) => row.capacity !== null) ? (
+            <div className="space-y-2">
+              {capacityRows.map((row) => (
+                <div key={`capacity-${row.assignee}`} className="grid grid-cols-[160px,1fr,160px] items-center gap-3 text-sm">
+                  <span className="truncate font-medium">{row.assignee}</span>
+                  <div className="h-3 overflow-hidden rounded-full bg-slate-200">
+                    <div
+                      className={`h-full ${ALLOCATION_STYLES[row.state].bar}`}
+                      style={{ width: `${Math.min(100, Math.round((row.utilization ?? 0) * 100))}%` }}
+                    />
+                  </div>
+                  <span className={ALLOCATION_STYLES[row.state].text}>
+                    {row.planned} / {row.capacity ?? "-"} ({utilizationLabel(row)})
+                  </span>
+                </div>
+              ))}
+              <div className="pt-1 text-xs text-muted-foreground">
+                Red is over capacity, amber is under {Math.round(UNDER_ALLOCATION_RATIO * 100)}% of capacity, grey is on leave.
+              </div>
+            </div>
+          ) : (
+            <div className="py-5 text-center text-sm text-muted-foreground">Set a weekly capacity for at least one assignee.</div>
+          )}
+        </AccordionSection>
+
         <AccordionSection
           title="Workload by Assignee"
-          description="Task load split by difficulty group"
+          description={`${WORKLOAD_MEASURE_LABELS[workloadMeasure]} split by difficulty group`}
         >
           <div className="max-h-[420px] overflow-y-auto rounded-xl border border-white/70 bg-white shadow-sm">
             <table className="w-full border-collapse text-sm">
               <thead>
                 <tr>
                   <th className="sticky top-0 z-20 bg-slate-100 px-2 py-2 text-left font-medium text-slate-700">Assignee</th>
-                  <th className="sticky top-0 z-20 bg-slate-100 px-2 py-2 text-left font-medium text-slate-700">Light (C1-C2)</th>
-                  <th className="sticky top-0 z-20 bg-slate-100 px-2 py-2 text-left font-medium text-slate-700">Medium (C3)</th>
-                  <th className="sticky top-0 z-20 bg-slate-100 px-2 py-2 text-left font-medium text-slate-700">Heavy (C4-C5)</th>
-                  <th className="sticky top-0 z-20 bg-slate-100 px-2 py-2 text-left font-medium text-slate-700">Total</th>
+                  <th className="sticky top-0 z-20 bg-slate-100 px-2 py-2 text-left font-medium text-slate-700">
+                    Light ({bucketLabels(estimationScale, "light") || "-"})
+                  </th>
+                  <th className="sticky top-0 z-20 bg-slate-100 px-2 py-2 text-left font-medium text-slate-700">
+                    Medium ({bucketLabels(estimationScale, "medium") || "-"})
+                  </th>
+                  <th className="sticky top-0 z-20 bg-slate-100 px-2 py-2 text-left font-medium text-slate-700">
+                    Heavy ({bucketLabels(estimationScale, "heavy") || "-"})
+                  </th>
+                  <th className="sticky top-0 z-20 bg-slate-100 px-2 py-2 text-left font-medium text-slate-700">
+                    {workloadMeasure === "count" ? "Unestimated" : "Unestimated (tasks)"}
+                  </th>
+                  <th className="sticky top-0 z-20 bg-slate-100 px-2 py-2 text-left font-medium text-slate-700">
+                    {workloadMeasure === "count" ? "Total" : "Total points"}
+                  </th>
+                  <th className="sticky top-0 z-20 bg-slate-100 px-2 py-2 text-left font-medium text-slate-700">Capacity</th>
                 </tr>
               </thead>
               <tbody>
                 {managerWorkloadRows.map((row) => (
-                  <tr key={`work-${row.assignee}`} className="border-b hover:bg-slate-50">
+                  <tr
+                    key={`work-${row.assignee}`}
+                    className={`border-b hover:bg-slate-50 ${ALLOCATION_STYLES[capacityByAssignee.get(row.assignee)?.state ?? "unset"].row}`}
+                  >
                     <td className="p-2">{row.assignee}</td>
                     <td className="p-2">{displayCount(row.light)}</td>
                     <td className="p-2">{displayCount(row.medium)}</td>
                     <td className="p-2">{displayCount(row.heavy)}</td>
+                    <td className="p-2">{displayCount(row.unestimated)}</td>
                     <td className="p-2">{displayCount(row.total)}</td>
+                    <td className={`p-2 ${ALLOCATION_STYLES[capacityByAssignee.get(row.assignee)?.state ?? "unset"].text}`}>
+                      {utilizationLabel(capacityByAssignee.get(row.assignee))}
+                    </td>
                   </tr>
                 ))}
               </tbody>
@@ -1555,46 +4238,206 @@ export default function App() {
             </table>
           </div>
         </AccordionSection>
+
+        <AccordionSection
+          title="Cycle and Lead Time"
+          description="Weeks from first label to completion, and weeks in progress from snapshot history, for done tasks"
+        >
+          <div className="mb-4 grid w-full max-w-xl grid-cols-1 gap-3 sm:grid-cols-2">
+            <div className="space-y-2">
+              <Label>Metric</Label>
+              <Select value={flowMetric} onValueChange={(v) => setFlowMetric(v as "leadTime" | "cycleTime")}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="leadTime">Lead time (first label to done)</SelectItem>
+                  <SelectItem value="cycleTime">Cycle time (weeks in progress)</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label>Percentiles by</Label>
+              <Select value={flowMetricGroup} onValueChange={(v) => setFlowMetricGroup(v as "module" | "issueType")}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="module">Module</SelectItem>
+                  <SelectItem value="issueType">Issue type</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          {flowMetric === "cycleTime" && !snapshotSeries.length && (
+            <div className="mb-4 text-xs text-muted-foreground">
+              Cycle time needs dated snapshots that show a task in progress and later done. Load snapshots in the Snapshot Compare tab.
+            </div>
+          )}
+
+          {flowMetricValues.length ? (
+            <div className="grid gap-4 lg:grid-cols-[1fr,1fr]">
+              <div className="h-64 rounded-xl border border-white/70 bg-white p-2 shadow-sm">
+                <ResponsiveContainer width="100%" height="100%">
+                  <BarChart data={flowMetricHistogram}>
+                    <CartesianGrid strokeDasharray="3 3" stroke="#e2e8f0" />
+                    <XAxis dataKey="weeks" tick={{ fontSize: 11 }} label={{ value: "weeks", position: "insideBottomRight", offset: -4, fontSize: 11 }} />
+                    <YAxis allowDecimals={false} />
+                    <Tooltip />
+                    <Bar dataKey="count" fill="#8b5cf6" name="Done tasks" radius={[4, 4, 0, 0]} />
+                  </BarChart>
+                </ResponsiveContainer>
+              </div>
+              <div className="max-h-64 overflow-y-auto rounded-xl border border-white/70 bg-white shadow-sm">
+                <table className="w-full border-collapse text-sm">
+                  <thead>
+                    <tr>
+                      <th className="sticky top-0 z-20 bg-slate-100 px-2 py-2 text-left font-medium text-slate-700">
+                        {flowMetricGroup === "module" ? "Module" : "Issue type"}
+                      </th>
+                      <th className="sticky top-0 z-20 bg-slate-100 px-2 py-2 text-left font-medium text-slate-700">Tasks</th>
+                      <th className="sticky top-0 z-20 bg-slate-100 px-2 py-2 text-left font-medium text-slate-700">P50</th>
+                      <th className="sticky top-0 z-20 bg-slate-100 px-2 py-2 text-left font-medium text-slate-700">P85</th>
+                      <th className="sticky top-0 z-20 bg-slate-100 px-2 py-2 text-left font-medium text-slate-700">P95</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {flowMetricPercentiles.map((row) => (
+                      <tr key={`flow-metric-${row.group}`} className={`border-b hover:bg-slate-50 ${row.group === "All" ? "font-medium" : ""}`}>
+                        <td className="p-2">{row.group}</td>
+                        <td className="p-2">{row.count}</td>
+                        <td className="p-2">{row.p50 ?? "-"}</td>
+                        <td className="p-2">{row.p85 ?? "-"}</td>
+                        <td className="p-2">{row.p95 ?? "-"}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            </div>
+          ) : (
+            <div className="py-5 text-center text-sm text-muted-foreground">No done tasks with enough history yet.</div>
+          )}
+        </AccordionSection>
       </section>
       ) : (
       <section className="space-y-5">
-        <div className="grid gap-4 lg:grid-cols-2">
-          <Card className="border border-white/70 bg-white/80 shadow-sm">
-            <CardHeader className="pb-3">
-              <CardTitle className="text-base">Baseline Snapshot</CardTitle>
-              <CardDescription>Older exported file to compare from.</CardDescription>
-            </CardHeader>
-            <CardContent className="space-y-3">
-              <Input
-                type="file"
-                accept=".xlsx,.xls,.csv"
-                disabled={isParsingSnapshotBase}
-                onChange={(e) => handleSnapshotFileUpload("base", e.target.files?.[0] ?? null)}
-              />
-              <div className="text-sm text-muted-foreground">
-                {isParsingSnapshotBase ? "Parsing baseline snapshot..." : snapshotBaseName || "No file selected"}
+        <Card className="border border-white/70 bg-white/80 shadow-sm">
+          <CardHeader className="pb-3">
+            <CardTitle className="text-base">Snapshot Series</CardTitle>
+            <CardDescription>
+              Add one exported file per snapshot. Each file is dated from its name (snapshot_week12, 2026-03-14), its Updated column
+              or its modified time, and the series is kept in date order; use the arrows to fix the order.
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-3">
+            <Input
+              type="file"
+              multiple
+              accept={TASK_FILE_ACCEPT}
+              disabled={isParsingSnapshots}
+              onChange={(e) => {
+                handleSnapshotFiles(e.target.files);
+                e.target.value = "";
+              }}
+            />
+            {isParsingSnapshots && <ParseProgressBar progress={snapshotParseProgress} onCancel={cancelSnapshotUpload} />}
+            {snapshots.length ? (
+              <ol className="space-y-1">
+                {snapshots.map((snapshot, index) => (
+                  <li
+                    key={snapshot.id}
+                    className="flex items-center justify-between gap-2 rounded-md border bg-white px-3 py-1.5 text-sm shadow-sm"
+                  >
+                    <span>
+                      <span className="mr-2 text-xs text-muted-foreground">#{index + 1}</span>
+                      <span className="font-medium">{snapshot.name}</span>
+                      <span className="ml-2 text-xs text-muted-foreground">{snapshot.tasks.length} rows</span>
+                      {snapshot.capturedAt && (
+                        <span className="ml-2 text-xs text-muted-foreground" title={`Date from ${snapshot.capturedAt.source}`}>
+                          {formatSnapshotDate(snapshot.capturedAt.time)} ({snapshot.capturedAt.source})
+                        </span>
+                      )}
+                    </span>
+                    <span className="flex gap-1">
+                      <Button variant="ghost" size="sm" disabled={index === 0} onClick={() => moveSnapshot(snapshot.id, -1)}>
+                        <ArrowUp className="h-3 w-3" />
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        disabled={index === snapshots.length - 1}
+                        onClick={() => moveSnapshot(snapshot.id, 1)}
+                      >
+                        <ArrowDown className="h-3 w-3" />
+                      </Button>
+                      <Button variant="ghost" size="sm" className="text-red-600" onClick={() => removeSnapshot(snapshot.id)}>
+                        <X className="h-3 w-3" />
+                      </Button>
+                    </span>
+                  </li>
+                ))}
+              </ol>
+            ) : (
+              <div className="text-sm text-muted-foreground">No snapshots loaded</div>
+            )}
+            {snapshotSeriesOutOfOrder && (
+              <div className="flex flex-wrap items-center justify-between gap-2 text-xs text-muted-foreground">
+                <span>The series is not in date order.</span>
+                <Button variant="outline" size="sm" onClick={sortSnapshotsByDate}>
+                  Sort by date
+                </Button>
               </div>
-            </CardContent>
-          </Card>
-
-          <Card className="border border-white/70 bg-white/80 shadow-sm">
-            <CardHeader className="pb-3">
-              <CardTitle className="text-base">Latest Snapshot</CardTitle>
-              <CardDescription>Newer exported file to compare against.</CardDescription>
-            </CardHeader>
-            <CardContent className="space-y-3">
-              <Input
-                type="file"
-                accept=".xlsx,.xls,.csv"
-                disabled={isParsingSnapshotCurrent}
-                onChange={(e) => handleSnapshotFileUpload("current", e.target.files?.[0] ?? null)}
-              />
-              <div className="text-sm text-muted-foreground">
-                {isParsingSnapshotCurrent ? "Parsing latest snapshot..." : snapshotCurrentName || "No file selected"}
+            )}
+            {snapshotSeries.length >= 2 && (
+              <div className="grid gap-3 border-t pt-3 sm:grid-cols-2">
+                <div className="space-y-1">
+                  <Label>Compare from</Label>
+                  <Select value={snapshotBase?.id ?? ""} onValueChange={setSnapshotCompareA}>
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {snapshotSeries.map((snapshot) => (
+                        <SelectItem key={`compare-a-${snapshot.id}`} value={snapshot.id}>
+                          {snapshot.label}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="space-y-1">
+                  <Label>Compare to</Label>
+                  <Select value={snapshotCurrent?.id ?? ""} onValueChange={setSnapshotCompareB}>
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {snapshotSeries.map((snapshot) => (
+                        <SelectItem key={`compare-b-${snapshot.id}`} value={snapshot.id}>
+                          {snapshot.label}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
               </div>
-            </CardContent>
-          </Card>
-        </div>
+            )}
+            {snapshotCompareReversed && snapshotBase?.capturedAt && snapshotCurrent?.capturedAt && (
+              <div className="flex flex-wrap items-center justify-between gap-2 rounded-lg border border-amber-200 bg-amber-50/60 px-3 py-2 text-sm text-amber-800">
+                <span className="flex items-center gap-2">
+                  <AlertTriangle className="h-4 w-4" />
+                  {snapshotBase.label} ({formatSnapshotDate(snapshotBase.capturedAt.time)}) is newer than {snapshotCurrent.label} (
+                  {formatSnapshotDate(snapshotCurrent.capturedAt.time)}), so the diff runs backwards.
+                </span>
+                <Button variant="outline" size="sm" onClick={swapSnapshotCompare}>
+                  Swap
+                </Button>
+              </div>
+            )}
+          </CardContent>
+        </Card>
 
         {snapshotError && <div className="rounded-xl border border-red-200 bg-red-50 px-4 py-3 text-sm text-red-700">{snapshotError}</div>}
 
@@ -1631,27 +4474,93 @@ export default function App() {
           </Card>
         </div>
 
-        <AccordionSection
-          title="Comparison Overview"
-          description="Track repeated tasks, status changes, and items that stay open across both snapshots"
-        >
-          <div className="mb-4 flex flex-wrap gap-4 rounded-xl border border-white/70 bg-white px-4 py-3 text-sm shadow-sm">
-            <label className="flex items-center gap-2">
-              <input
-                type="checkbox"
-                checked={snapshotShowChanged}
-                onChange={(e) => setSnapshotShowChanged(e.target.checked)}
-              />
-              Show tasks with status changes
-            </label>
-            <label className="flex items-center gap-2">
+        {snapshotSeries.length >= 2 && (
+          <AccordionSection
+            title="Snapshot Timeline"
+            description="Status of every task in each snapshot, and how many tasks moved between neighboring snapshots"
+          >
+            <div className="mb-4 grid gap-2 sm:grid-cols-2 xl:grid-cols-4">
+              {snapshotTransitions.map((transition) => (
+                <div
+                  key={`${transition.from}-${transition.to}`}
+                  className="rounded-xl border border-white/70 bg-white px-4 py-3 text-sm shadow-sm"
+                >
+                  <div className="font-medium">
+                    {transition.from} → {transition.to}
+                  </div>
+                  <div className="mt-1 flex flex-wrap gap-x-3 text-xs text-muted-foreground">
+                    <span className="text-sky-700">{transition.changed} changed</span>
+                    <span className="text-emerald-700">{transition.added} new</span>
+                    <span className="text-red-600">{transition.missing} missing</span>
+                  </div>
+                </div>
+              ))}
+            </div>
+            <label className="mb-3 flex items-center gap-2 text-sm">
               <input
                 type="checkbox"
-                checked={snapshotShowStillActive}
-                onChange={(e) => setSnapshotShowStillActive(e.target.checked)}
+                checked={snapshotTimelineChangedOnly}
+                onChange={(e) => setSnapshotTimelineChangedOnly(e.target.checked)}
               />
-              Show tasks still open or in progress in both snapshots
+              Only tasks whose status changed somewhere in the series
             </label>
+            <VirtualTable
+              rows={snapshotTimelineVisibleRows}
+              height={460}
+              emptyText="No task changed status across the loaded snapshots."
+              getRowKey={(row) => `timeline-${row.taskKey}`}
+              columns={[
+                { key: "module", label: "Project", render: (row) => row.module },
+                { key: "assignee", label: "Assignee", render: (row) => row.assignee },
+                {
+                  key: "taskId",
+                  label: "Task ID",
+                  render: (row) =>
+                    row.taskUrl ? (
+                      <a href={row.taskUrl} target="_blank" rel="noreferrer" className="text-primary underline underline-offset-2">
+                        {row.taskId}
+                      </a>
+                    ) : (
+                      row.taskId
+                    )
+                },
+                { key: "taskName", label: "Task", render: (row) => row.taskName },
+                ...snapshotSeries.map((snapshot, index) => ({
+                  key: `snapshot-${snapshot.id}`,
+                  label: snapshot.label,
+                  render: (row: (typeof snapshotTimelineRows)[number]) => (
+                    <StatusBadge status={row.statuses[index]} label={row.rawStatuses[index]} />
+                  )
+                }))
+              ]}
+            />
+          </AccordionSection>
+        )}
+
+        <AccordionSection
+          title="Comparison Overview"
+          description="Track repeated tasks, status changes, and items that stay open across both snapshots"
+        >
+          <div className="mb-4 rounded-xl border border-white/70 bg-white px-4 py-3 text-sm shadow-sm">
+            <div className="mb-2 font-medium">What changed</div>
+            <div className="flex flex-wrap gap-2">
+              {snapshotFieldCounts.map((field) => (
+                <button
+                  key={`field-count-${field.key}`}
+                  type="button"
+                  disabled={!field.count}
+                  onClick={() => {
+                    setSnapshotFieldFilter(field.key);
+                    setSnapshotCategoryFilters([...SNAPSHOT_CATEGORIES]);
+                  }}
+                  className={`rounded-full border px-3 py-1 text-xs disabled:opacity-50 ${
+                    snapshotFieldFilter === field.key ? "border-primary bg-primary text-white" : "bg-white text-slate-700 hover:bg-slate-50"
+                  }`}
+                >
+                  {field.label}: {field.count}
+                </button>
+              ))}
+            </div>
           </div>
 
           <div className="grid gap-4 lg:grid-cols-[280px,1fr]">
@@ -1672,19 +4581,137 @@ export default function App() {
               <div className="font-medium">Manager Notes</div>
               <div>`Status changed` shows real movement between the two exports, including progress and regressions.</div>
               <div>`Still active in both` highlights tasks that stayed `open` or `in progress` across both snapshots and may need follow-up.</div>
-              <div>Unchanged old tasks are hidden from the snapshot tables so the view stays focused on management signals.</div>
+              <div>Only status changes and still-active tasks are shown by default; use the filter bar to add the other categories.</div>
             </div>
           </div>
         </AccordionSection>
 
+        <div className="space-y-3 rounded-2xl border border-white/50 bg-white/70 p-4 text-sm shadow-sm">
+          <div className="flex flex-wrap items-center gap-x-4 gap-y-2">
+            <span className="font-medium">Categories</span>
+            {SNAPSHOT_CATEGORIES.map((category) => (
+              <label key={`snapshot-category-${category}`} className="flex items-center gap-2">
+                <input
+                  type="checkbox"
+                  checked={snapshotCategoryFilters.includes(category)}
+                  onChange={(e) =>
+                    setSnapshotCategoryFilters((prev) =>
+                      e.target.checked ? [...prev, category] : prev.filter((item) => item !== category)
+                    )
+                  }
+                />
+                {category} ({snapshotCategoryCounts.get(category) ?? 0})
+              </label>
+            ))}
+          </div>
+          <div className="grid gap-3 sm:grid-cols-2 xl:grid-cols-5">
+            <div className="space-y-1">
+              <Label>Project</Label>
+              <Select
+                value={snapshotModuleFilter}
+                onValueChange={(v) => {
+                  setSnapshotModuleFilter(v);
+                  setSnapshotAssigneeFilter("all");
+                }}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">All projects</SelectItem>
+                  {snapshotModules.map((module) => (
+                    <SelectItem key={`snapshot-module-${module}`} value={module}>
+                      {module}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-1">
+              <Label>Assignee</Label>
+              <Select value={snapshotAssigneeFilter} onValueChange={setSnapshotAssigneeFilter}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">All assignees</SelectItem>
+                  {snapshotAssignees.map((assignee) => (
+                    <SelectItem key={`snapshot-assignee-${assignee}`} value={assignee}>
+                      {assignee}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-1">
+              <Label>Changed field</Label>
+              <Select value={snapshotFieldFilter} onValueChange={(v) => setSnapshotFieldFilter(v as SnapshotField | "any" | "all")}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">Any or no change</SelectItem>
+                  <SelectItem value="any">Any field changed</SelectItem>
+                  {SNAPSHOT_DIFF_FIELDS.map((field) => (
+                    <SelectItem key={`field-filter-${field.key}`} value={field.key}>
+                      Only {field.label.toLowerCase()} changed
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="snapshot-search">Search</Label>
+              <Input
+                id="snapshot-search"
+                value={snapshotSearch}
+                placeholder="Task ID, name or notes"
+                onChange={(e) => setSnapshotSearch(e.target.value)}
+              />
+            </div>
+            <label className="flex items-center gap-2 self-end pb-2">
+              <input type="checkbox" checked={snapshotAttentionOnly} onChange={(e) => setSnapshotAttentionOnly(e.target.checked)} />
+              Needs attention only
+            </label>
+          </div>
+          <div className="flex items-center justify-between gap-2 text-xs text-muted-foreground">
+            <span>
+              {snapshotFilteredRows.length} of {snapshotComparisonRows.length} tasks match
+            </span>
+            <span className="flex items-center gap-3">
+              <Button variant="outline" size="sm" disabled={!snapshotComparisonRows.length} onClick={exportSnapshotWorkbook}>
+                Export workbook
+              </Button>
+              <button
+                type="button"
+                className="text-primary underline underline-offset-2"
+                onClick={() => {
+                  setSnapshotCategoryFilters(DEFAULT_SNAPSHOT_CATEGORIES);
+                  setSnapshotModuleFilter("all");
+                  setSnapshotAssigneeFilter("all");
+                  setSnapshotFieldFilter("all");
+                  setSnapshotSearch("");
+                  setSnapshotAttentionOnly(false);
+                }}
+              >
+                Reset filters
+              </button>
+            </span>
+          </div>
+        </div>
+
         <AccordionSection
           title="Attention Board"
-          description="Focused follow-up list based on the active snapshot filters"
+          description="Follow-up list for the categories and filters selected above"
         >
           <VirtualTable
-            rows={snapshotFilteredRows.filter((row) => row.needsAttention || row.category === "Status changed")}
+            rows={snapshotFilteredRows}
             height={420}
-            emptyText="Upload both files to compare snapshots."
+            emptyText={
+              snapshotComparisonRows.length
+                ? "No rows match the current filters."
+                : "Load at least two snapshots to compare them."
+            }
             getRowKey={(row) => `attention-${row.taskKey}`}
             columns={[
               { key: "category", label: "Category", render: (row) => row.category },
@@ -1703,22 +4730,28 @@ export default function App() {
                   )
               },
               { key: "taskName", label: "Task", render: (row) => row.taskName },
-              { key: "statusA", label: "Baseline", render: (row) => <StatusBadge status={row.statusA} /> },
-              { key: "statusB", label: "Latest", render: (row) => <StatusBadge status={row.statusB} /> },
+              { key: "statusA", label: "Baseline", render: (row) => <StatusBadge status={row.statusA} label={row.rawStatusA} /> },
+              { key: "statusB", label: "Latest", render: (row) => <StatusBadge status={row.statusB} label={row.rawStatusB} /> },
               { key: "notes", label: "Notes", render: (row) => row.notes }
             ]}
           />
         </AccordionSection>
 
         <AccordionSection
+          id="snapshot-diff"
           title="Full Snapshot Diff"
           description="Filtered task-by-task comparison for status movement and repeated active work"
         >
           <VirtualTable
             rows={snapshotFilteredRows}
             height={560}
-            emptyText="Upload both files to start snapshot comparison."
+            emptyText={
+              snapshotComparisonRows.length
+                ? "No rows match the current filters."
+                : "Load at least two snapshots to start snapshot comparison."
+            }
             getRowKey={(row) => row.taskKey}
+            highlightRow={jumpTaskKey ? (row) => row.taskKey === jumpTaskKey : undefined}
             columns={[
               { key: "category", label: "Category", render: (row) => row.category },
               { key: "project", label: "Project", render: (row) => row.module },
@@ -1736,10 +4769,11 @@ export default function App() {
                   )
               },
               { key: "taskName", label: "Task", render: (row) => row.taskName },
-              { key: "statusA", label: "Baseline", render: (row) => <StatusBadge status={row.statusA} /> },
-              { key: "statusB", label: "Latest", render: (row) => <StatusBadge status={row.statusB} /> },
+              { key: "statusA", label: "Baseline", render: (row) => <StatusBadge status={row.statusA} label={row.rawStatusA} /> },
+              { key: "statusB", label: "Latest", render: (row) => <StatusBadge status={row.statusB} label={row.rawStatusB} /> },
               { key: "weeksA", label: "Weeks A", render: (row) => row.weeksA },
               { key: "weeksB", label: "Weeks B", render: (row) => row.weeksB },
+              { key: "changes", label: "Changed fields", render: (row) => <FieldChanges changes={row.changes} /> },
               { key: "notes", label: "Notes", render: (row) => row.notes }
             ]}
           />
@@ -1749,8 +4783,37 @@ export default function App() {
 
       {!rowCount && !error && <div className="py-8 text-center text-sm text-muted-foreground">Upload a file to start analysis.</div>}
 
+      {pendingSheets && (
+        <SheetPickerDialog
+          fileName={pendingSheets.file.name}
+          sheets={pendingSheets.sheets}
+          onApply={applySheetSelection}
+          onCancel={cancelPendingDialog}
+        />
+      )}
+
+      {pendingMapping && (
+        <ColumnMappingDialog
+          key={`${pendingMapping.target}-${pendingMapping.signature}`}
+          fileName={pendingMapping.sheets ? `${pendingMapping.file.name} / ${pendingMapping.sheet}` : pendingMapping.file.name}
+          fields={COLUMN_FIELDS}
+          columns={pendingMapping.columns}
+          preview={pendingMapping.preview}
+          initialMapping={pendingMapping.mapping}
+          onApply={applyColumnMapping}
+          onCancel={cancelPendingDialog}
+        />
+      )}
+
+      {paletteOpen && (
+        <CommandPalette
+          items={paletteItems}
+          onClose={() => setPaletteOpen(false)}
+        />
+      )}
+
       {toast && (
-        <div className={`fixed bottom-6 right-6 z-[100] rounded-lg px-4 py-2 text-sm text-white shadow-lg ${toast.type === "success" ? "bg-emerald-600" : "bg-red-600"}`}>
+        <div className={`fixed bottom-6 right-6 z-[100] rounded-lg px-4 py-2 text-sm text-white shadow-lg ${TOAST_CLASSES[toast.type]}`}>
           {toast.message}
         </div>
       )}
@@ -0,0 +1,122 @@
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+
+export type CapacityUnit = "storyPoint" | "count";
+
+export type CapacityPlan = {
+  unit: CapacityUnit;
+  // Assignee -> capacity in a normal week.
+  capacities: Record<string, number>;
+  // Assignee -> week label -> percent available that week, for leave or part-time weeks.
+  availability: Record<string, Record<string, number>>;
+};
+
+export const EMPTY_CAPACITY_PLAN: CapacityPlan = { unit: "storyPoint", capacities: {}, availability: {} };
+
+export function effectiveCapacity(plan: CapacityPlan, assignee: string, week: string) {
+  const capacity = plan.capacities[assignee];
+  if (!capacity) return null;
+  return (capacity * (plan.availability[assignee]?.[week] ?? 100)) / 100;
+}
+
+export function CapacityEditor({
+  plan,
+  assignees,
+  week,
+  onChange
+}: {
+  plan: CapacityPlan;
+  assignees: string[];
+  week: string;
+  onChange: (plan: CapacityPlan) => void;
+}) {
+  const setCapacity = (assignee: string, value: string) => {
+    const capacities = { ...plan.capacities };
+    if (value === "" || Number(value) <= 0) delete capacities[assignee];
+    else capacities[assignee] = Number(value);
+    onChange({ ...plan, capacities });
+  };
+
+  const setAvailability = (assignee: string, value: string) => {
+    const weeks = { ...plan.availability[assignee] };
+    if (value === "" || Number(value) === 100) delete weeks[week];
+    else weeks[week] = Math.min(100, Math.max(0, Number(value)));
+    onChange({ ...plan, availability: { ...plan.availability, [assignee]: weeks } });
+  };
+
+  const otherWeeks = (assignee: string) =>
+    Object.entries(plan.availability[assignee] ?? {})
+      .filter(([label]) => label !== week)
+      .sort(([a], [b]) => a.localeCompare(b))
+      .map(([label, percent]) => `${label} ${percent}%`)
+      .join(", ");
+
+  return (
+    <div className="space-y-3">
+      <div className="w-full max-w-xs space-y-2">
+        <Label>Capacity unit</Label>
+        <Select value={plan.unit} onValueChange={(v) => onChange({ ...plan, unit: v as CapacityUnit })}>
+          <SelectTrigger>
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="storyPoint">Story points per week</SelectItem>
+            <SelectItem value="count">Tasks per week</SelectItem>
+          </SelectContent>
+        </Select>
+      </div>
+
+      {assignees.length ? (
+        <div className="max-h-72 overflow-y-auto rounded-xl border border-white/70 bg-white shadow-sm">
+          <table className="w-full border-collapse text-sm">
+            <thead>
+              <tr>
+                <th className="sticky top-0 z-10 bg-slate-100 px-2 py-2 text-left font-medium text-slate-700">Assignee</th>
+                <th className="sticky top-0 z-10 bg-slate-100 px-2 py-2 text-left font-medium text-slate-700">Weekly capacity</th>
+                <th className="sticky top-0 z-10 bg-slate-100 px-2 py-2 text-left font-medium text-slate-700">
+                  Available in {week || "-"} (%)
+                </th>
+                <th className="sticky top-0 z-10 bg-slate-100 px-2 py-2 text-left font-medium text-slate-700">Other weeks</th>
+              </tr>
+            </thead>
+            <tbody>
+              {assignees.map((assignee) => (
+                <tr key={`capacity-${assignee}`} className="border-b">
+                  <td className="p-2">{assignee}</td>
+                  <td className="p-2">
+                    <Input
+                      type="number"
+                      min="0"
+                      step="0.5"
+                      value={plan.capacities[assignee] ?? ""}
+                      placeholder="Not set"
+                      onChange={(e) => setCapacity(assignee, e.target.value)}
+                      className="h-8 w-28 text-sm"
+                    />
+                  </td>
+                  <td className="p-2">
+                    <Input
+                      type="number"
+                      min="0"
+                      max="100"
+                      step="10"
+                      disabled={!week}
+                      value={plan.availability[assignee]?.[week] ?? ""}
+                      placeholder="100"
+                      onChange={(e) => setAvailability(assignee, e.target.value)}
+                      className="h-8 w-24 text-sm"
+                    />
+                  </td>
+                  <td className="p-2 text-xs text-muted-foreground">{otherWeeks(assignee) || "-"}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      ) : (
+        <div className="text-sm text-muted-foreground">Load a dataset to set capacities per assignee.</div>
+      )}
+    </div>
+  );
+}
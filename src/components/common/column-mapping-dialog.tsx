@@ -0,0 +1,136 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+
+export type MappingField<K extends string> = {
+  key: K;
+  label: string;
+  required: boolean;
+};
+
+const NOT_IN_FILE = "__none__";
+
+export function ColumnMappingDialog<K extends string>({
+  fileName,
+  fields,
+  columns,
+  preview,
+  initialMapping,
+  onApply,
+  onCancel
+}: {
+  fileName: string;
+  fields: Array<MappingField<K>>;
+  columns: string[];
+  preview: Array<Record<string, string | number>>;
+  initialMapping: Partial<Record<K, string>>;
+  onApply: (mapping: Record<K, string>) => void;
+  onCancel: () => void;
+}) {
+  const [mapping, setMapping] = useState<Partial<Record<K, string>>>(() => {
+    const initial: Partial<Record<K, string>> = {};
+    fields.forEach((field) => {
+      const column = initialMapping[field.key];
+      if (column && columns.includes(column)) initial[field.key] = column;
+    });
+    return initial;
+  });
+
+  const missingRequired = fields.filter((field) => field.required && !mapping[field.key]);
+  const mappedColumns = new Set(Object.values(mapping).filter(Boolean) as string[]);
+
+  const apply = () => {
+    const result = {} as Record<K, string>;
+    fields.forEach((field) => {
+      result[field.key] = mapping[field.key] ?? "";
+    });
+    onApply(result);
+  };
+
+  return (
+    <div className="fixed inset-0 z-40 flex items-center justify-center bg-slate-900/40 p-4 backdrop-blur-sm">
+      <div className="flex max-h-[90vh] w-full max-w-4xl flex-col overflow-hidden rounded-2xl border bg-white shadow-2xl">
+        <div className="border-b px-5 py-4">
+          <div className="text-base font-semibold">Map columns</div>
+          <div className="text-sm text-muted-foreground">
+            Some columns in <span className="font-medium text-foreground">{fileName}</span> were not recognized. Pick the source
+            column for each field. The mapping is remembered for files with the same headers.
+          </div>
+        </div>
+
+        <div className="space-y-5 overflow-auto p-5">
+          <div className="grid gap-3 sm:grid-cols-3">
+            {fields.map((field) => (
+              <div key={field.key} className="space-y-1">
+                <Label className={field.required && !mapping[field.key] ? "text-red-600" : undefined}>
+                  {field.label}
+                  {field.required ? " *" : ""}
+                </Label>
+                <Select
+                  value={mapping[field.key] || NOT_IN_FILE}
+                  onValueChange={(v) => setMapping((prev) => ({ ...prev, [field.key]: v === NOT_IN_FILE ? "" : v }))}
+                >
+                  <SelectTrigger>
+                    <SelectValue placeholder="Select column" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={NOT_IN_FILE}>{field.required ? "Select column" : "Not in file"}</SelectItem>
+                    {columns.map((column) => (
+                      <SelectItem key={`${field.key}-${column}`} value={column}>
+                        {column}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            ))}
+          </div>
+
+          <div>
+            <div className="mb-2 text-sm font-medium">Preview (first {preview.length} rows)</div>
+            <div className="overflow-auto rounded-xl border">
+              <table className="w-full border-collapse text-xs">
+                <thead>
+                  <tr>
+                    {columns.map((column) => (
+                      <th
+                        key={column}
+                        className={`whitespace-nowrap px-2 py-2 text-left font-medium ${
+                          mappedColumns.has(column) ? "bg-sky-100 text-sky-800" : "bg-slate-100 text-slate-700"
+                        }`}
+                      >
+                        {column}
+                      </th>
+                    ))}
+                  </tr>
+                </thead>
+                <tbody>
+                  {preview.map((row, index) => (
+                    <tr key={`preview-${index}`} className="border-b">
+                      {columns.map((column) => (
+                        <td key={column} className="max-w-[220px] truncate p-2">
+                          {String(row[column] ?? "")}
+                        </td>
+                      ))}
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </div>
+        </div>
+
+        <div className="flex items-center justify-between gap-3 border-t px-5 py-3">
+          <span className="text-xs text-muted-foreground">
+            {missingRequired.length ? `Required: ${missingRequired.map((field) => field.label).join(", ")}` : "All required fields mapped"}
+          </span>
+          <div className="flex gap-2">
+            <Button variant="outline" onClick={onCancel}>Cancel</Button>
+            <Button disabled={missingRequired.length > 0} onClick={apply}>Apply mapping</Button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,121 @@
+import { useEffect, useMemo, useRef, useState } from "react";
+
+export type PaletteItem = {
+  id: string;
+  group: string;
+  label: string;
+  detail?: string;
+  // Text matched against the query, usually the label plus any searchable fields.
+  keywords: string;
+  run: () => void;
+};
+
+const MAX_RESULTS = 50;
+
+// Substring hits rank above scattered subsequence hits; consecutive letters score more than gaps.
+function fuzzyScore(text: string, query: string) {
+  const haystack = text.toLowerCase();
+  const index = haystack.indexOf(query);
+  if (index >= 0) return 1000 - index;
+
+  let score = 0;
+  let position = -1;
+  let streak = 0;
+  for (const char of query) {
+    const next = haystack.indexOf(char, position + 1);
+    if (next < 0) return null;
+    streak = next === position + 1 ? streak + 1 : 0;
+    score += 1 + streak;
+    position = next;
+  }
+  return score;
+}
+
+export function CommandPalette({ items, onClose }: { items: PaletteItem[]; onClose: () => void }) {
+  const [query, setQuery] = useState("");
+  const [active, setActive] = useState(0);
+  const listRef = useRef<HTMLDivElement>(null);
+
+  const results = useMemo(() => {
+    const needle = query.trim().toLowerCase().replace(/\s+/g, " ");
+    if (!needle) return items.filter((item) => item.group === "Actions").slice(0, MAX_RESULTS);
+    return items
+      .flatMap((item) => {
+        const score = fuzzyScore(item.keywords, needle);
+        return score === null ? [] : [{ item, score }];
+      })
+      .sort((a, b) => b.score - a.score)
+      .slice(0, MAX_RESULTS)
+      .map(({ item }) => item);
+  }, [items, query]);
+
+  useEffect(() => {
+    setActive(0);
+  }, [query]);
+
+  useEffect(() => {
+    listRef.current?.querySelector(`[data-index="${active}"]`)?.scrollIntoView({ block: "nearest" });
+  }, [active]);
+
+  const run = (item: PaletteItem | undefined) => {
+    if (!item) return;
+    onClose();
+    item.run();
+  };
+
+  return (
+    <div className="fixed inset-0 z-40 flex items-start justify-center bg-slate-900/40 p-4 pt-[12vh] backdrop-blur-sm" onClick={onClose}>
+      <div
+        className="flex max-h-[70vh] w-full max-w-xl flex-col overflow-hidden rounded-2xl border bg-white shadow-2xl"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <input
+          autoFocus
+          value={query}
+          placeholder="Search tasks, people, projects, epics or actions..."
+          className="border-b px-4 py-3 text-sm outline-none"
+          onChange={(e) => setQuery(e.target.value)}
+          onKeyDown={(e) => {
+            if (e.key === "ArrowDown") {
+              e.preventDefault();
+              setActive((prev) => Math.min(results.length - 1, prev + 1));
+            } else if (e.key === "ArrowUp") {
+              e.preventDefault();
+              setActive((prev) => Math.max(0, prev - 1));
+            } else if (e.key === "Enter") {
+              e.preventDefault();
+              run(results[active]);
+            } else if (e.key === "Escape") {
+              onClose();
+            }
+          }}
+        />
+        <div ref={listRef} className="overflow-y-auto p-2">
+          {results.length ? (
+            results.map((item, index) => (
+              <button
+                key={item.id}
+                type="button"
+                data-index={index}
+                className={`flex w-full items-center justify-between gap-3 rounded-md px-3 py-2 text-left text-sm ${
+                  index === active ? "bg-sky-50" : "hover:bg-slate-50"
+                }`}
+                onMouseEnter={() => setActive(index)}
+                onClick={() => run(item)}
+              >
+                <span className="min-w-0">
+                  <span className="block truncate font-medium">{item.label}</span>
+                  {item.detail && <span className="block truncate text-xs text-muted-foreground">{item.detail}</span>}
+                </span>
+                <span className="shrink-0 text-xs text-muted-foreground">{item.group}</span>
+              </button>
+            ))
+          ) : (
+            <div className="p-4 text-center text-sm text-muted-foreground">No matches</div>
+          )}
+        </div>
+        <div className="border-t px-4 py-2 text-xs text-muted-foreground">Enter to open, arrows to move, Esc to close</div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,69 @@
+import { Button } from "@/components/ui/button";
+import type { DatasetMeta } from "@/lib/dataset-store";
+
+export type DatasetTarget = "replace" | "add" | "snapshot";
+
+function formatLoadedAt(value: number) {
+  return new Date(value).toLocaleString();
+}
+
+export function DatasetLibrary({
+  datasets,
+  activeIds,
+  disabled,
+  onOpen,
+  onDelete
+}: {
+  datasets: DatasetMeta[];
+  activeIds: Set<string>;
+  disabled?: boolean;
+  onOpen: (id: string, target: DatasetTarget) => void;
+  onDelete: (id: string) => void;
+}) {
+  if (!datasets.length) {
+    return <div className="text-sm text-muted-foreground">Files you load are kept here so they survive a page refresh.</div>;
+  }
+
+  return (
+    <div className="max-h-72 overflow-y-auto rounded-xl border border-white/70 bg-white shadow-sm">
+      <table className="w-full border-collapse text-sm">
+        <thead>
+          <tr>
+            <th className="sticky top-0 z-10 bg-slate-100 px-2 py-2 text-left font-medium text-slate-700">File</th>
+            <th className="sticky top-0 z-10 bg-slate-100 px-2 py-2 text-left font-medium text-slate-700">Loaded</th>
+            <th className="sticky top-0 z-10 bg-slate-100 px-2 py-2 text-left font-medium text-slate-700">Rows</th>
+            <th className="sticky top-0 z-10 bg-slate-100 px-2 py-2 text-left font-medium text-slate-700" />
+          </tr>
+        </thead>
+        <tbody>
+          {datasets.map((dataset) => (
+            <tr key={dataset.id} className="border-b hover:bg-slate-50">
+              <td className="p-2">
+                <span className="font-medium">{dataset.name}</span>
+                {activeIds.has(dataset.id) && <span className="ml-2 rounded-full bg-sky-100 px-2 py-0.5 text-xs text-sky-700">in use</span>}
+              </td>
+              <td className="whitespace-nowrap p-2 text-muted-foreground">{formatLoadedAt(dataset.loadedAt)}</td>
+              <td className="p-2">{dataset.rowCount}</td>
+              <td className="p-2">
+                <div className="flex flex-wrap justify-end gap-1">
+                  <Button variant="outline" size="sm" disabled={disabled} onClick={() => onOpen(dataset.id, "replace")}>
+                    Open
+                  </Button>
+                  <Button variant="outline" size="sm" disabled={disabled} onClick={() => onOpen(dataset.id, "add")}>
+                    Add
+                  </Button>
+                  <Button variant="ghost" size="sm" disabled={disabled} onClick={() => onOpen(dataset.id, "snapshot")}>
+                    As snapshot
+                  </Button>
+                  <Button variant="ghost" size="sm" className="text-red-600" onClick={() => onDelete(dataset.id)}>
+                    Delete
+                  </Button>
+                </div>
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+}
@@ -0,0 +1,120 @@
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+
+type ScaleWeight = "light" | "medium" | "heavy";
+
+export type ScaleBucket = {
+  label: string;
+  max: number | null;
+  weight: ScaleWeight;
+};
+
+export type Scale<Id extends string> = {
+  id: Id | "custom";
+  name: string;
+  buckets: ScaleBucket[];
+};
+
+const WEIGHTS: ScaleWeight[] = ["light", "medium", "heavy"];
+
+export function EstimationScaleEditor<Id extends string>({
+  scale,
+  presets,
+  onChange
+}: {
+  scale: Scale<Id>;
+  presets: Array<Scale<Id>>;
+  onChange: (scale: Scale<Id>) => void;
+}) {
+  const updateBucket = (index: number, patch: Partial<ScaleBucket>) => {
+    onChange({
+      ...scale,
+      buckets: scale.buckets.map((bucket, i) => (i === index ? { ...bucket, ...patch } : bucket))
+    });
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="w-full max-w-xs space-y-2">
+        <Label>Estimation scale</Label>
+        <Select
+          value={scale.id}
+          onValueChange={(v) => {
+            const preset = presets.find((item) => item.id === v);
+            onChange(preset ?? { id: "custom", name: "Custom", buckets: scale.buckets.map((bucket) => ({ ...bucket })) });
+          }}
+        >
+          <SelectTrigger>
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {presets.map((preset) => (
+              <SelectItem key={preset.id} value={preset.id}>
+                {preset.name}
+              </SelectItem>
+            ))}
+            <SelectItem value="custom">Custom buckets</SelectItem>
+          </SelectContent>
+        </Select>
+      </div>
+
+      {scale.id === "custom" && (
+        <div className="space-y-2 rounded-xl border border-white/70 bg-white p-3 shadow-sm">
+          <div className="text-xs text-muted-foreground">
+            Buckets are matched top to bottom: a task goes into the first bucket whose max is at least its story points. Leave
+            max empty for an open-ended bucket. Text estimates match a bucket by its label.
+          </div>
+          {scale.buckets.map((bucket, index) => (
+            <div key={`bucket-${index}`} className="grid grid-cols-[1fr,110px,130px,auto] items-center gap-2">
+              <Input
+                value={bucket.label}
+                placeholder="Label"
+                onChange={(e) => updateBucket(index, { label: e.target.value })}
+                className="h-8 text-sm"
+              />
+              <Input
+                type="number"
+                step="0.5"
+                value={bucket.max ?? ""}
+                placeholder="No max"
+                onChange={(e) => updateBucket(index, { max: e.target.value === "" ? null : Number(e.target.value) })}
+                className="h-8 text-sm"
+              />
+              <Select value={bucket.weight} onValueChange={(v) => updateBucket(index, { weight: v as ScaleWeight })}>
+                <SelectTrigger className="h-8">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {WEIGHTS.map((weight) => (
+                    <SelectItem key={weight} value={weight}>
+                      {weight}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Button
+                variant="ghost"
+                size="sm"
+                disabled={scale.buckets.length <= 1}
+                onClick={() => onChange({ ...scale, buckets: scale.buckets.filter((_, i) => i !== index) })}
+              >
+                Remove
+              </Button>
+            </div>
+          ))}
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() =>
+              onChange({ ...scale, buckets: [...scale.buckets, { label: `B${scale.buckets.length + 1}`, max: null, weight: "heavy" }] })
+            }
+          >
+            Add bucket
+          </Button>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,52 @@
+export function MultiCheckFilter({
+  options,
+  selected,
+  allLabel,
+  formatOption = (option) => option,
+  onChange
+}: {
+  options: string[];
+  selected: string[];
+  allLabel: string;
+  formatOption?: (option: string) => string;
+  onChange: (selected: string[]) => void;
+}) {
+  const summary = selected.length
+    ? options
+        .filter((option) => selected.includes(option))
+        .map(formatOption)
+        .join(", ")
+    : allLabel;
+
+  return (
+    <details className="group relative">
+      <summary className="flex h-10 cursor-pointer list-none items-center justify-between rounded-md border border-input bg-background px-3 py-2 text-sm">
+        <span className="truncate">{summary}</span>
+      </summary>
+      <div className="absolute z-20 mt-2 w-full rounded-md border bg-card p-3 shadow-md">
+        <label className="mb-2 flex items-center gap-2 text-sm">
+          <input
+            type="checkbox"
+            checked={selected.length === 0}
+            onChange={(e) => {
+              if (e.target.checked) onChange([]);
+            }}
+          />
+          {allLabel}
+        </label>
+        <div className="max-h-44 space-y-1 overflow-auto border-t pt-2">
+          {options.map((option) => (
+            <label key={option} className="flex items-center gap-2 text-sm">
+              <input
+                type="checkbox"
+                checked={selected.includes(option)}
+                onChange={(e) => onChange(e.target.checked ? [...selected, option] : selected.filter((item) => item !== option))}
+              />
+              {formatOption(option)}
+            </label>
+          ))}
+        </div>
+      </div>
+    </details>
+  );
+}
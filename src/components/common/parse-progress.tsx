@@ -0,0 +1,32 @@
+import { Button } from "@/components/ui/button";
+
+export type ParseProgress = {
+  stage: string;
+  rowsParsed: number;
+  totalRows: number;
+};
+
+function progressPercent(progress: ParseProgress | null) {
+  if (!progress?.totalRows) return 0;
+  return Math.min(100, Math.round((progress.rowsParsed / progress.totalRows) * 100));
+}
+
+export function ParseProgressBar({ progress, onCancel }: { progress: ParseProgress | null; onCancel: () => void }) {
+  return (
+    <div className="space-y-1">
+      <div className="flex items-center justify-between gap-3 text-sm text-primary">
+        <span>
+          {progress
+            ? `${progress.stage}: ${progress.rowsParsed.toLocaleString()} / ${progress.totalRows.toLocaleString()} rows`
+            : "Processing data in Web Worker..."}
+        </span>
+        <Button variant="outline" size="sm" onClick={onCancel}>
+          Cancel
+        </Button>
+      </div>
+      <div className="h-2 overflow-hidden rounded-full bg-slate-200">
+        <div className="h-full bg-primary transition-all" style={{ width: `${progressPercent(progress)}%` }} />
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,78 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+
+export type SheetOption = {
+  name: string;
+  rowCount: number;
+};
+
+export function SheetPickerDialog({
+  fileName,
+  sheets,
+  onApply,
+  onCancel
+}: {
+  fileName: string;
+  sheets: SheetOption[];
+  onApply: (sheets: string[]) => void;
+  onCancel: () => void;
+}) {
+  const [selected, setSelected] = useState<string[]>(() => {
+    const firstWithRows = sheets.find((sheet) => sheet.rowCount > 0) ?? sheets[0];
+    return firstWithRows ? [firstWithRows.name] : [];
+  });
+
+  const toggle = (name: string, checked: boolean) => {
+    setSelected((prev) => (checked ? [...prev, name] : prev.filter((item) => item !== name)));
+  };
+
+  // Keep workbook order regardless of click order so merged tasks stay grouped by sheet.
+  const ordered = sheets.map((sheet) => sheet.name).filter((name) => selected.includes(name));
+  const selectedRows = sheets.filter((sheet) => selected.includes(sheet.name)).reduce((sum, sheet) => sum + sheet.rowCount, 0);
+
+  return (
+    <div className="fixed inset-0 z-40 flex items-center justify-center bg-slate-900/40 p-4 backdrop-blur-sm">
+      <div className="flex max-h-[90vh] w-full max-w-lg flex-col overflow-hidden rounded-2xl border bg-white shadow-2xl">
+        <div className="border-b px-5 py-4">
+          <div className="text-base font-semibold">Choose sheets</div>
+          <div className="text-sm text-muted-foreground">
+            <span className="font-medium text-foreground">{fileName}</span> has {sheets.length} sheets. Pick one, or several to
+            merge them into one task set.
+          </div>
+        </div>
+
+        <div className="overflow-auto p-5">
+          <label className="mb-2 flex items-center gap-2 text-sm">
+            <input
+              type="checkbox"
+              checked={selected.length === sheets.length}
+              onChange={(e) => setSelected(e.target.checked ? sheets.map((sheet) => sheet.name) : [])}
+            />
+            All sheets
+          </label>
+          <div className="space-y-1 border-t pt-2">
+            {sheets.map((sheet) => (
+              <label key={sheet.name} className="flex items-center justify-between gap-2 rounded-md px-1 py-1 text-sm hover:bg-slate-50">
+                <span className="flex items-center gap-2">
+                  <input type="checkbox" checked={selected.includes(sheet.name)} onChange={(e) => toggle(sheet.name, e.target.checked)} />
+                  {sheet.name}
+                </span>
+                <span className="text-xs text-muted-foreground">{sheet.rowCount} rows</span>
+              </label>
+            ))}
+          </div>
+        </div>
+
+        <div className="flex items-center justify-between gap-3 border-t px-5 py-3">
+          <span className="text-xs text-muted-foreground">{selectedRows} rows selected</span>
+          <div className="flex gap-2">
+            <Button variant="outline" onClick={onCancel}>Cancel</Button>
+            <Button disabled={!ordered.length} onClick={() => onApply(ordered)}>
+              {ordered.length > 1 ? `Merge ${ordered.length} sheets` : "Load sheet"}
+            </Button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,77 @@
+import { Button } from "@/components/ui/button";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+
+export type StatusMappingRow<K extends string> = {
+  key: string;
+  raw: string;
+  count: number;
+  category: K;
+  custom: boolean;
+};
+
+export function StatusMappingEditor<K extends string>({
+  rows,
+  categories,
+  onChange,
+  onReset
+}: {
+  rows: Array<StatusMappingRow<K>>;
+  categories: Array<{ key: K; label: string }>;
+  onChange: (key: string, category: K) => void;
+  onReset: (key?: string) => void;
+}) {
+  if (!rows.length) {
+    return <div className="text-sm text-muted-foreground">Load a file to see its workflow statuses.</div>;
+  }
+
+  return (
+    <div className="space-y-2">
+      <div className="max-h-72 overflow-y-auto rounded-xl border border-white/70 bg-white shadow-sm">
+        <table className="w-full border-collapse text-sm">
+          <thead>
+            <tr>
+              <th className="sticky top-0 z-10 bg-slate-100 px-2 py-2 text-left font-medium text-slate-700">Raw status</th>
+              <th className="sticky top-0 z-10 bg-slate-100 px-2 py-2 text-left font-medium text-slate-700">Tasks</th>
+              <th className="sticky top-0 z-10 bg-slate-100 px-2 py-2 text-left font-medium text-slate-700">Category</th>
+              <th className="sticky top-0 z-10 bg-slate-100 px-2 py-2 text-left font-medium text-slate-700" />
+            </tr>
+          </thead>
+          <tbody>
+            {rows.map((row) => (
+              <tr key={row.key} className="border-b hover:bg-slate-50">
+                <td className="p-2">{row.raw}</td>
+                <td className="p-2">{row.count}</td>
+                <td className="p-2">
+                  <Select value={row.category} onValueChange={(v) => onChange(row.key, v as K)}>
+                    <SelectTrigger className="h-8 w-40">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {categories.map((category) => (
+                        <SelectItem key={`${row.key}-${category.key}`} value={category.key}>
+                          {category.label}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </td>
+                <td className="p-2 text-right">
+                  {row.custom && (
+                    <button type="button" className="text-xs text-primary underline underline-offset-2" onClick={() => onReset(row.key)}>
+                      Reset
+                    </button>
+                  )}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+      {rows.some((row) => row.custom) && (
+        <Button variant="outline" size="sm" onClick={() => onReset()}>
+          Reset all to detected
+        </Button>
+      )}
+    </div>
+  );
+}
@@ -1,5 +1,5 @@
-import type { ReactNode } from "react";
-import { TableVirtuoso } from "react-virtuoso";
+import { type ReactNode, useEffect, useRef } from "react";
+import { TableVirtuoso, type TableVirtuosoHandle } from "react-virtuoso";
 
 export type VirtualColumn<T> = {
   key: string;
@@ -14,14 +14,24 @@ export function VirtualTable<T>({
   columns,
   height = 460,
   getRowKey,
-  emptyText = "No data"
+  emptyText = "No data",
+  highlightRow
 }: {
   rows: T[];
   columns: Array<VirtualColumn<T>>;
   height?: number;
   getRowKey: (row: T, index: number) => string;
   emptyText?: string;
+  // Picks the row to scroll to and mark, e.g. the target of a command palette jump.
+  highlightRow?: (row: T) => boolean;
 }) {
+  const virtuosoRef = useRef<TableVirtuosoHandle>(null);
+  const highlightIndex = highlightRow ? rows.findIndex(highlightRow) : -1;
+
+  useEffect(() => {
+    if (highlightIndex >= 0) virtuosoRef.current?.scrollToIndex({ index: highlightIndex, align: "center" });
+  }, [highlightIndex]);
+
   if (!rows.length) {
     return (
       <div className="rounded-xl border border-white/70 bg-white shadow-sm">
@@ -33,6 +43,7 @@ export function VirtualTable<T>({
   return (
     <div className="rounded-xl border border-white/70 bg-white shadow-sm">
       <TableVirtuoso
+        ref={virtuosoRef}
         style={{ height }}
         data={rows}
         computeItemKey={(index, row) => getRowKey(row, index)}
@@ -57,7 +68,12 @@ export function VirtualTable<T>({
         }
         components={{
           Table: (props) => <table {...props} className="w-full border-collapse text-sm" />,
-          TableRow: (props) => <tr {...props} className="border-b transition-colors hover:bg-slate-50" />
+          TableRow: ({ item: _item, ...props }) => (
+            <tr
+              {...props}
+              className={`border-b transition-colors hover:bg-slate-50 ${props["data-index"] === highlightIndex ? "bg-sky-100" : ""}`}
+            />
+          )
         }}
       />
     </div>
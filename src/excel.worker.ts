@@ -1,32 +1,107 @@
 import * as XLSX from "xlsx";
 
-type Status = "open" | "inprogress" | "done" | "other";
+type Status = "open" | "inprogress" | "review" | "blocked" | "done" | "cancelled" | "other";
 
 type Task = {
   taskId: string;
   taskUrl: string;
   issueType: string;
   assignee: string;
-  storyPoint: number;
+  // null when the task is not estimated; the value is kept as exported (0.5, 8, 13, ...).
+  storyPoint: number | null;
+  rawStoryPoint: string;
   name: string;
   weeks: string[];
   epicLink: string;
   module: string;
   status: Status;
+  rawStatus: string;
+  source: string;
+  // 1-based row number in the source sheet, header row included.
+  sourceRow: number;
+};
+
+type ImportIssueKind = "key" | "weeks" | "storyPoint" | "status" | "duplicate";
+
+type ImportIssue = {
+  kind: ImportIssueKind;
+  source: string;
+  row: number;
+  taskId: string;
+  value: string;
+  message: string;
 };
 
 type RawRow = Record<string, string | number>;
 
-type WorkerRequest = {
-  type: "parse";
-  requestId: number;
-  buffer: ArrayBuffer;
+type ColumnField = keyof typeof COLUMN_ALIASES;
+
+// Field -> source column. An empty string means the field is not present in the file.
+type ColumnMapping = Partial<Record<ColumnField, string>>;
+
+type SheetInfo = { name: string; rowCount: number };
+
+// Jira custom-field IDs differ per instance, so these are configured in the app.
+type JiraFieldConfig = {
+  storyPoint: string;
+  epicLink: string;
+};
+
+type ParseOptions = {
+  // Sheets to read; when omitted, a workbook with several sheets is listed instead of parsed.
+  sheets?: string[];
+  savedMappings?: Record<string, ColumnMapping>;
+  jiraFields?: JiraFieldConfig;
+};
+
+type WorkerRequest =
+  | (ParseOptions & {
+      type: "parse";
+      requestId: number;
+      format: "sheet" | "csv" | "json";
+      buffer: ArrayBuffer;
+    })
+  | { type: "cancel"; requestId: number };
+
+type JiraIssue = {
+  key?: string;
+  self?: string;
+  fields?: Record<string, unknown>;
 };
 
 type WorkerResponse =
-  | { type: "success"; requestId: number; rowCount: number; tasks: Task[] }
+  | { type: "success"; requestId: number; rowCount: number; tasks: Task[]; issues: ImportIssue[]; updatedAt: number | null }
+  | { type: "sheets"; requestId: number; rowCount: number; sheets: SheetInfo[] }
+  | {
+      type: "mapping";
+      requestId: number;
+      rowCount: number;
+      sheet: string;
+      signature: string;
+      columns: string[];
+      preview: RawRow[];
+      mapping: ColumnMapping;
+    }
+  | { type: "cancelled"; requestId: number; rowCount: number }
   | { type: "error"; requestId: number; rowCount: number; error: string };
 
+type ProgressMessage = {
+  type: "progress";
+  requestId: number;
+  stage: string;
+  rowsParsed: number;
+  totalRows: number;
+};
+
+type SheetRows = { name: string; rows: RawRow[]; rowNumbers: number[] };
+
+type ParseJob = {
+  // Reports progress, then yields so a pending cancel message can be handled.
+  checkpoint: (stage: string, rowsParsed: number, totalRows: number) => Promise<void>;
+};
+
+class ParseCancelledError extends Error {}
+
 const COLUMN_ALIASES = {
   taskId: ["key", "taskid", "task id", "id", "ticketid", "jiraid"],
   issueType: ["issuetype", "issue type", "type"],
@@ -39,6 +114,31 @@ const COLUMN_ALIASES = {
   status: ["status", "state"]
 } as const;
 
+const REQUIRED_FIELDS: ColumnField[] = ["taskId", "name", "status"];
+
+// Read only to date a snapshot, so it stays out of the column mapping.
+const UPDATED_ALIASES = ["updated", "updated at", "last updated", "updated date", "last modified", "ngày cập nhật", "cập nhật"];
+
+const MONTH_NAMES = ["jan", "feb", "mar", "apr", "may", "jun", "jul", "aug", "sep", "oct", "nov", "dec"];
+
+const PREVIEW_ROW_COUNT = 5;
+
+const DEFAULT_JIRA_FIELDS: JiraFieldConfig = { storyPoint: "customfield_10016", epicLink: "customfield_10014" };
+
+const JSON_SOURCE = "Jira JSON";
+
+// CSV files are read without XLSX, so name the single sheet the way XLSX would.
+const CSV_SHEET_NAME = "Sheet1";
+
+const CHUNK_SIZE = 1000;
+
+// CSV bytes decoded and parsed per step, so a large file is never held as one decoded string.
+const CSV_SLICE_BYTES = 1024 * 1024;
+
+// Cancels are only recorded for parses still running, so a late cancel never leaves its id behind.
+const activeRequests = new Set<number>();
+const cancelledRequests = new Set<number>();
+
 function normalizeText(value: string) {
   return value.toLowerCase().replace(/[_\s-]+/g, "").trim();
 }
@@ -48,27 +148,69 @@ function detectColumn(columns: string[], aliases: readonly string[]) {
   return columns.find((column) => normalizedAliases.includes(normalizeText(column))) ?? "";
 }
 
+function headerSignature(columns: string[]) {
+  return columns.map(normalizeText).sort().join("|");
+}
+
+function detectColumnMapping(columns: string[]) {
+  const mapping: ColumnMapping = {};
+  (Object.keys(COLUMN_ALIASES) as ColumnField[]).forEach((field) => {
+    const column = detectColumn(columns, COLUMN_ALIASES[field]);
+    if (column) mapping[field] = column;
+  });
+  return mapping;
+}
+
+// Only a missing required column asks the user; optional fields without a column are read as not in the file.
+function isMappingComplete(mapping: ColumnMapping, columns: string[]) {
+  return REQUIRED_FIELDS.every((field) => {
+    const column = mapping[field];
+    return Boolean(column && columns.includes(column));
+  });
+}
+
+// Default categories; the app lets users override any raw status in the status mapping editor.
+const STATUS_ALIASES: Record<Exclude<Status, "other">, string[]> = {
+  open: ["open", "todo", "to-do", "new", "backlog", "reopened", "selectedfordevelopment", "mới", "chưalàm", "cầnlàm"],
+  inprogress: ["inprogress", "in-progress", "doing", "progress", "indevelopment", "đangthựchiện", "đanglàm", "đangxửlý"],
+  review: ["review", "inreview", "codereview", "qa", "inqa", "testing", "intesting", "readyfortest", "chờduyệt", "đangkiểmtra"],
+  blocked: ["blocked", "onhold", "impeded", "waiting", "bịchặn", "tạmdừng"],
+  done: ["done", "closed", "resolved", "completed", "fixed", "hoànthành", "đãxong", "đóng"],
+  cancelled: ["cancelled", "canceled", "won'tdo", "wontdo", "won'tfix", "wontfix", "rejected", "duplicate", "đãhủy", "hủy"]
+};
+
 function normalizeStatus(value: string | number | undefined): Status {
-  const v = String(value ?? "").toLowerCase().replace(/\s+/g, "");
-  if (v === "open" || v === "todo" || v === "to-do" || v === "new" || v === "backlog") return "open";
-  if (v === "inprogress" || v === "in-progress" || v === "doing" || v === "progress") return "inprogress";
-  if (v === "done" || v === "closed") return "done";
-  return "other";
+  const v = String(value ?? "").toLowerCase().normalize("NFC").replace(/\s+/g, "");
+  const match = (Object.keys(STATUS_ALIASES) as Array<keyof typeof STATUS_ALIASES>).find((status) =>
+    STATUS_ALIASES[status].includes(v)
+  );
+  return match ?? "other";
+}
+
+// Year-qualified labels become "2026-W01"; bare "W1" becomes "W01" and gets its year in the app.
+function normalizeWeekLabel(label: string) {
+  const m = label.match(/^(?:(\d{4})-?W(\d{1,2})|W(\d{1,2})(?:-(\d{4}))?)$/);
+  if (!m) return "";
+  const week = String(m[2] ?? m[3]).padStart(2, "0");
+  const year = m[1] ?? m[4];
+  return year ? `${year}-W${week}` : `W${week}`;
 }
 
 function parseWeekLabels(value: string | number | undefined) {
   const raw = String(value ?? "").replace(/[\[\]"]/g, " ");
   const weeks = raw
     .split(/[;,|\s]+/)
-    .map((item) => item.trim().toUpperCase())
-    .filter((item) => /^W\d{1,2}$/.test(item));
+    .map((item) => normalizeWeekLabel(item.trim().toUpperCase()))
+    .filter(Boolean);
   return Array.from(new Set(weeks));
 }
 
 function storyPointValue(value: string | number | undefined) {
-  const n = Number(value);
-  if (!Number.isFinite(n)) return 0;
-  return Math.max(1, Math.min(5, Math.round(n)));
+  if (typeof value === "number") return Number.isFinite(value) ? value : null;
+  const raw = String(value ?? "").trim().replace(",", ".");
+  if (!raw) return null;
+  const n = Number(raw);
+  return Number.isFinite(n) ? n : null;
 }
 
 function parseTaskKeyCell(value: string | number | undefined) {
@@ -89,85 +231,425 @@ function parseTaskKeyCell(value: string | number | undefined) {
   return { taskId: raw || "-", taskUrl: "" };
 }
 
-function parseExcelBuffer(buffer: ArrayBuffer): WorkerResponse {
-  try {
-    const workbook = XLSX.read(buffer, { type: "array" });
-    const sheet = workbook.Sheets[workbook.SheetNames[0]];
-    const parsed = XLSX.utils.sheet_to_json<Record<string, unknown>>(sheet, { defval: "" });
-
-    const rows: RawRow[] = parsed.map((row) => {
-      const obj: RawRow = {};
-      Object.entries(row).forEach(([k, v]) => {
-        obj[String(k).trim()] = typeof v === "number" ? v : String(v ?? "").trim();
-      });
-      return obj;
+function sheetRowCount(sheet: XLSX.WorkSheet | undefined) {
+  if (!sheet?.["!ref"]) return 0;
+  const range = XLSX.utils.decode_range(sheet["!ref"]);
+  return Math.max(0, range.e.r - range.s.r);
+}
+
+// Accepts Excel date serials, ISO strings, Jira's "12/Mar/25 10:15 AM" and dd/mm/yyyy.
+function parseUpdatedValue(value: unknown) {
+  if (typeof value === "number") {
+    return value > 20000 && value < 80000 ? Math.round((value - 25569) * 86400000) : null;
+  }
+  const text = String(value ?? "").trim();
+  if (!text) return null;
+
+  const jira = text.match(/^(\d{1,2})\/([A-Za-z]{3})\/(\d{2,4})/);
+  if (jira) {
+    const month = MONTH_NAMES.indexOf(jira[2].toLowerCase());
+    const year = Number(jira[3]) + (jira[3].length === 2 ? 2000 : 0);
+    return month < 0 ? null : Date.UTC(year, month, Number(jira[1]));
+  }
+  const dmy = text.match(/^(\d{1,2})\/(\d{1,2})\/(\d{4})/);
+  if (dmy) return Date.UTC(Number(dmy[3]), Number(dmy[2]) - 1, Number(dmy[1]));
+
+  const parsed = Date.parse(text);
+  return Number.isNaN(parsed) ? null : parsed;
+}
+
+function latestTime(current: number | null, value: unknown) {
+  const time = parseUpdatedValue(value);
+  return time !== null && (current === null || time > current) ? time : current;
+}
+
+function readSheetRows(sheet: XLSX.WorkSheet) {
+  const parsed = XLSX.utils.sheet_to_json<Record<string, unknown>>(sheet, { defval: "" });
+  // sheet_to_json exposes the 0-based sheet row as a non-enumerable __rowNum__.
+  const rowNumbers = parsed.map((row, index) => ((row as { __rowNum__?: number }).__rowNum__ ?? index + 1) + 1);
+  const rows = parsed.map((row) => {
+    const obj: RawRow = {};
+    Object.entries(row).forEach(([k, v]) => {
+      obj[String(k).trim()] = typeof v === "number" ? v : String(v ?? "").trim();
     });
+    return obj;
+  });
+  return { rows, rowNumbers };
+}
 
-    if (!rows.length) {
-      return { type: "error", requestId: -1, rowCount: 0, error: "The file has no data." };
+const TASK_KEY_PATTERN = /^[A-Z][A-Z0-9]+-\d+$/;
+
+const DUPLICATE_FIELDS = [
+  ["status", "status"],
+  ["assignee", "assignee"],
+  ["storyPoint", "story points"],
+  ["module", "module"],
+  ["name", "summary"]
+] as const;
+
+function collectImportIssues(tasks: Task[], mapped: { labels: boolean; storyPoint: boolean }) {
+  const issues: ImportIssue[] = [];
+  const firstByKey = new Map<string, Task>();
+
+  tasks.forEach((task) => {
+    const base = { source: task.source, row: task.sourceRow, taskId: task.taskId };
+
+    if (!TASK_KEY_PATTERN.test(task.taskId)) {
+      issues.push({ ...base, kind: "key", value: task.taskId, message: "Key is not a Jira issue key (e.g. ABC-123)" });
+    }
+    if (mapped.labels && !task.weeks.length) {
+      issues.push({ ...base, kind: "weeks", value: "", message: "No week label (Wnn or YYYY-Wnn) in Labels" });
+    }
+    if (mapped.storyPoint && task.rawStoryPoint && (task.storyPoint === null || task.storyPoint < 0)) {
+      issues.push({ ...base, kind: "storyPoint", value: task.rawStoryPoint, message: "Story points is not a valid number" });
+    }
+    if (task.status === "other") {
+      issues.push({ ...base, kind: "status", value: task.rawStatus, message: "Status is not a known workflow status" });
+    }
+
+    if (!TASK_KEY_PATTERN.test(task.taskId)) return;
+    const first = firstByKey.get(task.taskId);
+    if (!first) {
+      firstByKey.set(task.taskId, task);
+      return;
+    }
+    const conflicts = DUPLICATE_FIELDS.filter(([field]) => first[field] !== task[field]).map(([field, label]) => {
+      const from = label === "status" ? first.rawStatus : String(first[field] ?? "-");
+      const to = label === "status" ? task.rawStatus : String(task[field] ?? "-");
+      return `${label} "${from}" vs "${to}"`;
+    });
+    if (conflicts.length) {
+      issues.push({
+        ...base,
+        kind: "duplicate",
+        value: conflicts.join("; "),
+        message: `Duplicate key conflicts with ${first.source} row ${first.sourceRow}`
+      });
+    }
+  });
+
+  return issues;
+}
+
+function columnNames(header: string[]) {
+  const seen = new Map<string, number>();
+  return header.map((raw) => {
+    const name = raw.trim() || "__EMPTY";
+    const count = seen.get(name) ?? 0;
+    seen.set(name, count + 1);
+    return count ? `${name}_${count}` : name;
+  });
+}
+
+function detectCsvDelimiter(text: string) {
+  const firstLine = text.slice(0, text.search(/\r?\n|$/));
+  const candidates = [",", ";", "\t"];
+  const counts = candidates.map((delimiter) => firstLine.split(delimiter).length);
+  return candidates[counts.indexOf(Math.max(...counts))];
+}
+
+async function readCsvRows(buffer: ArrayBuffer, job: ParseJob): Promise<SheetRows> {
+  // Streaming decode holds back a multi-byte character split across two slices until the next one arrives.
+  const decoder = new TextDecoder("utf-8");
+  const records: string[][] = [];
+  let delimiter = "";
+  let record: string[] = [];
+  let field = "";
+  let inQuotes = false;
+  // A quote inside quotes and a carriage return both depend on the next character, which may open the next slice.
+  let quotePending = false;
+  let crPending = false;
+
+  for (let offset = 0; offset < buffer.byteLength; offset += CSV_SLICE_BYTES) {
+    const end = Math.min(buffer.byteLength, offset + CSV_SLICE_BYTES);
+    const text = decoder.decode(new Uint8Array(buffer, offset, end - offset), { stream: end < buffer.byteLength });
+    delimiter ||= detectCsvDelimiter(text);
+    const estimatedRows = Math.max(1, Math.round(((records.length + (text.match(/\n/g)?.length ?? 0)) * buffer.byteLength) / end));
+
+    for (let i = 0; i < text.length; i += 1) {
+      const ch = text[i];
+      if (crPending) {
+        crPending = false;
+        if (ch === "\n") continue;
+      }
+      if (quotePending) {
+        quotePending = false;
+        if (ch === '"') {
+          field += '"';
+          continue;
+        }
+        inQuotes = false;
+      }
+      if (inQuotes) {
+        if (ch === '"') quotePending = true;
+        else field += ch;
+        continue;
+      }
+
+      if (ch === '"') inQuotes = true;
+      else if (ch === delimiter) {
+        record.push(field);
+        field = "";
+      } else if (ch === "\n" || ch === "\r") {
+        crPending = ch === "\r";
+        record.push(field);
+        records.push(record);
+        record = [];
+        field = "";
+        if (records.length % CHUNK_SIZE === 0) await job.checkpoint("Reading rows", records.length, estimatedRows);
+      } else field += ch;
     }
+  }
+  if (field || record.length) {
+    record.push(field);
+    records.push(record);
+  }
 
+  const [header = [], ...body] = records;
+  const columns = columnNames(header);
+  const rows: RawRow[] = [];
+  const rowNumbers: number[] = [];
+  body.forEach((values, index) => {
+    if (values.every((value) => !value.trim())) return;
+    const row: RawRow = {};
+    columns.forEach((column, columnIndex) => {
+      row[column] = (values[columnIndex] ?? "").trim();
+    });
+    rows.push(row);
+    // Header is row 1, so the first data record is row 2.
+    rowNumbers.push(index + 2);
+  });
+  return { name: CSV_SHEET_NAME, rows, rowNumbers };
+}
+
+async function buildTasks(sheetRows: SheetRows[], savedMappings: Record<string, ColumnMapping>, job: ParseJob): Promise<WorkerResponse> {
+  const rowCount = sheetRows.reduce((sum, sheet) => sum + sheet.rows.length, 0);
+  if (!rowCount) {
+    return { type: "error", requestId: -1, rowCount: 0, error: "The file has no data." };
+  }
+
+  const mappings: ColumnMapping[] = [];
+  const updatedColumns: string[] = [];
+  for (const { name, rows } of sheetRows) {
     const columns = Array.from(new Set(rows.flatMap((r) => Object.keys(r)).filter(Boolean)));
-    const colTaskId = detectColumn(columns, COLUMN_ALIASES.taskId);
-    const colIssueType = detectColumn(columns, COLUMN_ALIASES.issueType);
-    const colAssignee = detectColumn(columns, COLUMN_ALIASES.assignee);
-    const colStoryPoint = detectColumn(columns, COLUMN_ALIASES.storyPoint);
-    const colName = detectColumn(columns, COLUMN_ALIASES.name);
-    const colLabels = detectColumn(columns, COLUMN_ALIASES.labels);
-    const colEpicLink = detectColumn(columns, COLUMN_ALIASES.epicLink);
-    const colModule = detectColumn(columns, COLUMN_ALIASES.module);
-    const colStatus = detectColumn(columns, COLUMN_ALIASES.status);
-
-    const missing: string[] = [];
-    if (!colTaskId) missing.push("Key");
-    if (!colIssueType) missing.push("Issue Type");
-    if (!colAssignee) missing.push("Assignee");
-    if (!colStoryPoint) missing.push("Story Points");
-    if (!colName) missing.push("Summary");
-    if (!colLabels) missing.push("Labels");
-    if (!colEpicLink) missing.push("Epic Link");
-    if (!colModule) missing.push("ModuleName");
-    if (!colStatus) missing.push("Status");
-
-    if (missing.length) {
+    updatedColumns.push(detectColumn(columns, UPDATED_ALIASES));
+    const signature = headerSignature(columns);
+    const detected = detectColumnMapping(columns);
+    const mapping = savedMappings[signature] ?? detected;
+
+    if (rows.length && !isMappingComplete(mapping, columns)) {
       return {
-        type: "error",
+        type: "mapping",
         requestId: -1,
         rowCount: rows.length,
-        error: `Missing required columns: ${missing.join(", ")}`
+        sheet: name,
+        signature,
+        columns,
+        preview: rows.slice(0, PREVIEW_ROW_COUNT),
+        mapping: { ...detected, ...mapping }
       };
     }
+    mappings.push(mapping);
+  }
 
-    const tasks: Task[] = rows.map((row) => {
-      const keyInfo = parseTaskKeyCell(row[colTaskId]);
-      return {
+  const tasks: Task[] = [];
+  const mapped = { labels: false, storyPoint: false };
+  let updatedAt: number | null = null;
+
+  for (const [sheetIndex, { name, rows, rowNumbers }] of sheetRows.entries()) {
+    const mapping = mappings[sheetIndex];
+    const updatedColumn = updatedColumns[sheetIndex];
+    const cell = (row: RawRow, field: ColumnField) => {
+      const column = mapping[field];
+      return column ? row[column] : undefined;
+    };
+
+    for (const [index, row] of rows.entries()) {
+      const keyInfo = parseTaskKeyCell(cell(row, "taskId"));
+      tasks.push({
         taskId: keyInfo.taskId,
         taskUrl: keyInfo.taskUrl,
-        issueType: String(row[colIssueType] || "-"),
-        assignee: String(row[colAssignee] || "Unknown"),
-        storyPoint: storyPointValue(row[colStoryPoint]),
-        name: String(row[colName] || ""),
-        weeks: parseWeekLabels(row[colLabels]),
-        epicLink: String(row[colEpicLink] || "-"),
-        module: String(row[colModule] || "Unknown"),
-        status: normalizeStatus(row[colStatus])
+        issueType: String(cell(row, "issueType") || "-"),
+        assignee: String(cell(row, "assignee") || "Unknown"),
+        storyPoint: storyPointValue(cell(row, "storyPoint")),
+        rawStoryPoint: String(cell(row, "storyPoint") ?? "").trim(),
+        name: String(cell(row, "name") || ""),
+        weeks: parseWeekLabels(cell(row, "labels")),
+        epicLink: String(cell(row, "epicLink") || "-"),
+        module: String(cell(row, "module") || "Unknown"),
+        status: normalizeStatus(cell(row, "status")),
+        rawStatus: String(cell(row, "status") ?? "").trim(),
+        source: name,
+        sourceRow: rowNumbers[index]
+      });
+      if (updatedColumn) updatedAt = latestTime(updatedAt, row[updatedColumn]);
+      if (tasks.length % CHUNK_SIZE === 0) await job.checkpoint("Building tasks", tasks.length, rowCount);
+    }
+    mapped.labels ||= !!mapping.labels;
+    mapped.storyPoint ||= !!mapping.storyPoint;
+  }
+
+  await job.checkpoint("Building tasks", rowCount, rowCount);
+  return { type: "success", requestId: -1, rowCount, tasks, issues: collectImportIssues(tasks, mapped), updatedAt };
+}
+
+async function parseExcelBuffer(buffer: ArrayBuffer, { sheets, savedMappings = {} }: ParseOptions, job: ParseJob): Promise<WorkerResponse> {
+  try {
+    // UTF-8 by default so CSV exports keep non-ASCII headers such as "Người được giao".
+    const workbook = XLSX.read(buffer, { type: "array", codepage: 65001 });
+
+    if (!sheets && workbook.SheetNames.length > 1) {
+      return {
+        type: "sheets",
+        requestId: -1,
+        rowCount: 0,
+        sheets: workbook.SheetNames.map((name) => ({ name, rowCount: sheetRowCount(workbook.Sheets[name]) }))
       };
-    });
+    }
 
-    return { type: "success", requestId: -1, rowCount: rows.length, tasks };
-  } catch {
+    const sheetNames = (sheets ?? workbook.SheetNames).filter((name) => workbook.Sheets[name]);
+    const totalRows = sheetNames.reduce((sum, name) => sum + sheetRowCount(workbook.Sheets[name]), 0);
+    const sheetRows: SheetRows[] = [];
+    let rowsRead = 0;
+    for (const name of sheetNames) {
+      await job.checkpoint("Reading rows", rowsRead, totalRows);
+      const { rows, rowNumbers } = readSheetRows(workbook.Sheets[name]);
+      sheetRows.push({ name, rows, rowNumbers });
+      rowsRead += rows.length;
+    }
+
+    return await buildTasks(sheetRows, savedMappings, job);
+  } catch (error) {
+    if (error instanceof ParseCancelledError) throw error;
     return { type: "error", requestId: -1, rowCount: 0, error: "Unable to read file. Please check Excel/CSV format." };
   }
 }
 
-self.onmessage = (event: MessageEvent<WorkerRequest>) => {
-  if (event.data?.type !== "parse") return;
-  const { requestId, buffer } = event.data;
-  const parsed = parseExcelBuffer(buffer);
-  const response: WorkerResponse =
-    parsed.type === "success"
-      ? { ...parsed, requestId }
-      : { ...parsed, requestId };
+async function parseCsvBuffer(buffer: ArrayBuffer, { savedMappings = {} }: ParseOptions, job: ParseJob): Promise<WorkerResponse> {
+  try {
+    const sheet = await readCsvRows(buffer, job);
+    return await buildTasks([sheet], savedMappings, job);
+  } catch (error) {
+    if (error instanceof ParseCancelledError) throw error;
+    return { type: "error", requestId: -1, rowCount: 0, error: "Unable to read file. Please check Excel/CSV format." };
+  }
+}
+
+function jiraName(value: unknown) {
+  if (typeof value === "string") return value.trim();
+  if (value && typeof value === "object") {
+    const record = value as Record<string, unknown>;
+    const name = record.displayName ?? record.name ?? record.value ?? record.key;
+    return typeof name === "string" ? name.trim() : "";
+  }
+  return "";
+}
+
+function jiraBrowseUrl(issue: JiraIssue) {
+  if (!issue.self || !issue.key) return "";
+  try {
+    return `${new URL(issue.self).origin}/browse/${issue.key}`;
+  } catch {
+    return "";
+  }
+}
+
+async function parseJiraJsonBuffer(
+  buffer: ArrayBuffer,
+  { jiraFields = DEFAULT_JIRA_FIELDS }: ParseOptions,
+  job: ParseJob
+): Promise<WorkerResponse> {
+  try {
+    const data = JSON.parse(new TextDecoder("utf-8").decode(buffer)) as { issues?: JiraIssue[] } | JiraIssue[];
+    const issues = Array.isArray(data) ? data : data.issues;
+    if (!Array.isArray(issues)) {
+      return { type: "error", requestId: -1, rowCount: 0, error: "The JSON file has no issues[] array." };
+    }
+    if (!issues.length) {
+      return { type: "error", requestId: -1, rowCount: 0, error: "The file has no data." };
+    }
+
+    const tasks: Task[] = [];
+    let updatedAt: number | null = null;
+    for (const [index, issue] of issues.entries()) {
+      const fields = issue.fields ?? {};
+      const rawStoryPoint = fields[jiraFields.storyPoint || DEFAULT_JIRA_FIELDS.storyPoint];
+      const components = Array.isArray(fields.components) ? fields.components.map(jiraName).filter(Boolean) : [];
+      const labels = Array.isArray(fields.labels) ? fields.labels.map((label) => String(label).toUpperCase()) : [];
+      const parent = fields.parent as { key?: string; fields?: { issuetype?: { name?: string } } } | undefined;
+      const epicFromParent = parent?.fields?.issuetype?.name === "Epic" ? parent.key ?? "" : "";
+      const rawStatus = jiraName(fields.status);
+      const keyInfo = parseTaskKeyCell(issue.key);
+
+      tasks.push({
+        taskId: keyInfo.taskId,
+        taskUrl: jiraBrowseUrl(issue),
+        issueType: jiraName(fields.issuetype) || "-",
+        assignee: jiraName(fields.assignee) || "Unknown",
+        storyPoint: typeof rawStoryPoint === "number" || typeof rawStoryPoint === "string" ? storyPointValue(rawStoryPoint) : null,
+        rawStoryPoint: rawStoryPoint === null || rawStoryPoint === undefined ? "" : String(rawStoryPoint),
+        name: typeof fields.summary === "string" ? fields.summary : "",
+        weeks: Array.from(new Set(labels.map(normalizeWeekLabel).filter(Boolean))),
+        epicLink: jiraName(fields[jiraFields.epicLink || DEFAULT_JIRA_FIELDS.epicLink]) || epicFromParent || "-",
+        module: components[0] || jiraName(fields.project) || "Unknown",
+        status: normalizeStatus(rawStatus),
+        rawStatus,
+        source: JSON_SOURCE,
+        sourceRow: index + 1
+      });
+      updatedAt = latestTime(updatedAt, fields.updated);
+      if (tasks.length % CHUNK_SIZE === 0) await job.checkpoint("Building tasks", tasks.length, issues.length);
+    }
+
+    return {
+      type: "success",
+      requestId: -1,
+      rowCount: tasks.length,
+      tasks,
+      issues: collectImportIssues(tasks, { labels: true, storyPoint: true }),
+      updatedAt
+    };
+  } catch (error) {
+    if (error instanceof ParseCancelledError) throw error;
+    return { type: "error", requestId: -1, rowCount: 0, error: "Unable to read JSON file. Expected a Jira search result export." };
+  }
+}
+
+self.onmessage = async (event: MessageEvent<WorkerRequest>) => {
+  const message = event.data;
+  if (message?.type === "cancel") {
+    if (activeRequests.has(message.requestId)) cancelledRequests.add(message.requestId);
+    return;
+  }
+  if (message?.type !== "parse") return;
+
+  const { requestId, format, buffer, ...options } = message;
+  activeRequests.add(requestId);
+  const job: ParseJob = {
+    checkpoint: async (stage, rowsParsed, totalRows) => {
+      const progress: ProgressMessage = { type: "progress", requestId, stage, rowsParsed, totalRows };
+      self.postMessage(progress);
+      await new Promise((resolve) => setTimeout(resolve, 0));
+      if (cancelledRequests.has(requestId)) throw new ParseCancelledError();
+    }
+  };
+
+  let response: WorkerResponse;
+  try {
+    const parsed =
+      format === "json"
+        ? await parseJiraJsonBuffer(buffer, options, job)
+        : format === "csv"
+          ? await parseCsvBuffer(buffer, options, job)
+          : await parseExcelBuffer(buffer, options, job);
+    response = { ...parsed, requestId };
+  } catch (error) {
+    if (!(error instanceof ParseCancelledError)) throw error;
+    response = { type: "cancelled", requestId, rowCount: 0 };
+  } finally {
+    activeRequests.delete(requestId);
+    cancelledRequests.delete(requestId);
+  }
   self.postMessage(response);
 };
 
@@ -0,0 +1,85 @@
+const DB_NAME = "task-report-dashboard";
+const DB_VERSION = 1;
+// Metadata lives apart from the parsed rows so listing the library never loads every task array.
+const META_STORE = "datasets";
+const DATA_STORE = "dataset-data";
+
+export type DatasetMeta = {
+  id: string;
+  name: string;
+  loadedAt: number;
+  rowCount: number;
+  // Size of the uploaded file in bytes; entries saved before it was recorded have none.
+  size?: number;
+};
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function openDatabase() {
+  if (!dbPromise) {
+    dbPromise = new Promise<IDBDatabase>((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        request.result.createObjectStore(META_STORE, { keyPath: "id" });
+        request.result.createObjectStore(DATA_STORE);
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+    dbPromise.catch(() => {
+      dbPromise = null;
+    });
+  }
+  return dbPromise;
+}
+
+function promisify<T>(request: IDBRequest<T>) {
+  return new Promise<T>((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+function transactionDone(tx: IDBTransaction) {
+  return new Promise<void>((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+}
+
+export function createDatasetId() {
+  return `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+}
+
+export async function listDatasets() {
+  const db = await openDatabase();
+  const items = await promisify(db.transaction(META_STORE).objectStore(META_STORE).getAll() as IDBRequest<DatasetMeta[]>);
+  return items.sort((a, b) => b.loadedAt - a.loadedAt);
+}
+
+export async function loadDataset<T>(id: string) {
+  const db = await openDatabase();
+  const tx = db.transaction([META_STORE, DATA_STORE]);
+  const [meta, data] = await Promise.all([
+    promisify(tx.objectStore(META_STORE).get(id) as IDBRequest<DatasetMeta | undefined>),
+    promisify(tx.objectStore(DATA_STORE).get(id) as IDBRequest<T | undefined>)
+  ]);
+  return meta && data !== undefined ? { meta, data } : null;
+}
+
+export async function saveDataset<T>(meta: DatasetMeta, data: T) {
+  const db = await openDatabase();
+  const tx = db.transaction([META_STORE, DATA_STORE], "readwrite");
+  tx.objectStore(META_STORE).put(meta);
+  tx.objectStore(DATA_STORE).put(data, meta.id);
+  await transactionDone(tx);
+}
+
+export async function deleteDataset(id: string) {
+  const db = await openDatabase();
+  const tx = db.transaction([META_STORE, DATA_STORE], "readwrite");
+  tx.objectStore(META_STORE).delete(id);
+  tx.objectStore(DATA_STORE).delete(id);
+  await transactionDone(tx);
+}